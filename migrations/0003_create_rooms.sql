@@ -0,0 +1,36 @@
+-- CreateTable
+CREATE TABLE "Room" (
+    "id" TEXT NOT NULL PRIMARY KEY,
+    "key" TEXT NOT NULL,
+    "ownerId" TEXT NOT NULL,
+    "visibility" TEXT NOT NULL DEFAULT 'public',
+    "maxCapacity" INTEGER,
+    "inviteCode" TEXT,
+    "createdAt" DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    CONSTRAINT "Room_ownerId_fkey" FOREIGN KEY ("ownerId") REFERENCES "User" ("id") ON DELETE RESTRICT ON UPDATE CASCADE
+);
+
+-- CreateTable
+CREATE TABLE "RoomMember" (
+    "id" TEXT NOT NULL PRIMARY KEY,
+    "roomId" TEXT NOT NULL,
+    "userId" TEXT NOT NULL,
+    "createdAt" DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    CONSTRAINT "RoomMember_roomId_fkey" FOREIGN KEY ("roomId") REFERENCES "Room" ("id") ON DELETE CASCADE ON UPDATE CASCADE,
+    CONSTRAINT "RoomMember_userId_fkey" FOREIGN KEY ("userId") REFERENCES "User" ("id") ON DELETE RESTRICT ON UPDATE CASCADE
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "Room_key_key" ON "Room"("key");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "Room_inviteCode_key" ON "Room"("inviteCode");
+
+-- CreateIndex
+CREATE INDEX "Room_ownerId_idx" ON "Room"("ownerId");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "RoomMember_roomId_userId_key" ON "RoomMember"("roomId", "userId");
+
+-- CreateIndex
+CREATE INDEX "RoomMember_userId_idx" ON "RoomMember"("userId");
@@ -1,26 +1,13 @@
 // components/GameSync/GameCursor.tsx
 'use client';
 
-import { useState, useEffect } from 'react';
-
-interface MousePosition {
-  x: number;
-  y: number;
-  timestamp: number;
-}
-
-interface GameUser {
-  userId: string;
-  username: string;
-  mousePosition: MousePosition | null;
-  cursorColor: string;
-  score?: number;
-  level?: number;
-}
+import { useState, useEffect, useRef } from 'react';
+import type { GameUser, MousePosition } from '@/app/shared/realtimeProtocol';
+import { toViewportPosition } from '@/app/lib/cursorCoordinates';
 
 interface GameCursorProps {
   user: GameUser;
-  smoothing?: number;
+  position: { x: number; y: number } | null; // Local viewport pixels
   showTrail?: boolean;
   trailLength?: number;
 }
@@ -31,62 +18,49 @@ interface CursorPosition {
   opacity: number;
 }
 
-export function GameCursor({ 
-  user, 
-  smoothing = 0.8, 
-  showTrail = true, 
-  trailLength = 5 
-}: GameCursorProps) {
-  const [currentPosition, setCurrentPosition] = useState<{ x: number; y: number }>({ x: 0, y: 0 });
-  const [trail, setTrail] = useState<CursorPosition[]>([]);
-  const [isVisible, setIsVisible] = useState(false);
-  const [animationId, setAnimationId] = useState<number | null>(null);
+// How much cursor history to keep per user
+const SAMPLE_BUFFER = {
+  MAX_AGE: 1000, // ms behind the render time
+  MAX_SAMPLES: 32,
+} as const;
 
-  // Smooth cursor movement animation
-  useEffect(() => {
-    if (!user.mousePosition) {
-      setIsVisible(false);
-      return;
-    }
+/**
+ * Position at `time` (server clock), interpolated between the buffered samples
+ * around it. Holds the nearest sample outside the buffer and snaps across anchor changes.
+ */
+function sampleAt(samples: MousePosition[], time: number): MousePosition | null {
+  if (samples.length === 0) return null;
+  if (time <= samples[0].timestamp) return samples[0];
 
-    const targetX = user.mousePosition.x;
-    const targetY = user.mousePosition.y;
-    setIsVisible(true);
+  for (let i = samples.length - 1; i >= 0; i--) {
+    const from = samples[i];
+    if (from.timestamp > time) continue;
 
-    // Cancel previous animation
-    if (animationId) {
-      cancelAnimationFrame(animationId);
-    }
+    const to = samples[i + 1];
+    if (!to || to.anchor !== from.anchor || to.timestamp === from.timestamp) return from;
 
-    const animate = () => {
-      setCurrentPosition(prev => {
-        const dx = targetX - prev.x;
-        const dy = targetY - prev.y;
-        
-        // If we're close enough, snap to target
-        if (Math.abs(dx) < 0.5 && Math.abs(dy) < 0.5) {
-          return { x: targetX, y: targetY };
-        }
-        
-        // Smooth interpolation
-        return {
-          x: prev.x + dx * (1 - smoothing),
-          y: prev.y + dy * (1 - smoothing)
-        };
-      });
-      
-      // Continue animation if we haven't reached target
-      setAnimationId(requestAnimationFrame(animate));
+    const progress = (time - from.timestamp) / (to.timestamp - from.timestamp);
+    return {
+      x: from.x + (to.x - from.x) * progress,
+      y: from.y + (to.y - from.y) * progress,
+      timestamp: time,
+      anchor: from.anchor
     };
+  }
 
-    setAnimationId(requestAnimationFrame(animate));
+  return samples[samples.length - 1];
+}
 
-    return () => {
-      if (animationId) {
-        cancelAnimationFrame(animationId);
-      }
-    };
-  }, [user.mousePosition, smoothing, animationId]);
+export function GameCursor({ 
+  user, 
+  position,
+  showTrail = true, 
+  trailLength = 5 
+}: GameCursorProps) {
+  const [trail, setTrail] = useState<CursorPosition[]>([]);
+  const isVisible = position !== null;
+  const x = position?.x ?? 0;
+  const y = position?.y ?? 0;
 
   // Update trail
   useEffect(() => {
@@ -94,7 +68,7 @@ export function GameCursor({
 
     setTrail(prev => {
       const newTrail = [
-        { ...currentPosition, opacity: 1 },
+        { x, y, opacity: 1 },
         ...prev.slice(0, trailLength - 1).map((point, index) => ({
           ...point,
           opacity: 1 - (index + 1) / trailLength
@@ -102,9 +76,9 @@ export function GameCursor({
       ];
       return newTrail;
     });
-  }, [currentPosition, showTrail, trailLength, isVisible]);
+  }, [x, y, showTrail, trailLength, isVisible]);
 
-  if (!isVisible || !user.mousePosition) {
+  if (!isVisible || !position) {
     return null;
   }
 
@@ -136,8 +110,8 @@ export function GameCursor({
       <div
         className="fixed pointer-events-none z-50 transition-opacity duration-200"
         style={{
-          left: currentPosition.x,
-          top: currentPosition.y,
+          left: position.x,
+          top: position.y,
           transform: 'translate(-2px, -2px)'
         }}
       >
@@ -184,7 +158,8 @@ export function GameCursor({
 interface GameCursorsProps {
   users: GameUser[];
   currentUserId?: string | null;
-  smoothing?: number;
+  getServerTime?: () => number;
+  interpolationDelay?: number; // ms behind server time to render, should cover a couple of ticks
   showTrail?: boolean;
   trailLength?: number;
 }
@@ -192,27 +167,104 @@ interface GameCursorsProps {
 export function GameCursors({ 
   users, 
   currentUserId, 
-  smoothing = 0.8, 
+  getServerTime = Date.now,
+  interpolationDelay = 100,
   showTrail = true, 
   trailLength = 5 
 }: GameCursorsProps) {
+  const samplesRef = useRef<Map<string, MousePosition[]>>(new Map());
+  const [, setFrame] = useState(0);
+  // True while some cursor is still interpolating towards its latest sample
+  const [animating, setAnimating] = useState(false);
+
   // Filter out current user and users without mouse positions
   const otherUsers = users.filter(user => 
     user.userId !== currentUserId && 
     user.mousePosition !== null
   );
 
+  // Buffer each new server sample per user
+  useEffect(() => {
+    const buffers = samplesRef.current;
+    const visible = new Set<string>();
+    let received = false;
+
+    for (const user of users) {
+      const position = user.mousePosition;
+      if (user.userId === currentUserId || !position) continue;
+      visible.add(user.userId);
+
+      const samples = buffers.get(user.userId) ?? [];
+      const last = samples[samples.length - 1];
+      if (!last || position.timestamp > last.timestamp) {
+        samples.push(position);
+        received = true;
+      }
+
+      // Drop history the render time has moved past (always keeping the latest)
+      const cutoff = getServerTime() - interpolationDelay - SAMPLE_BUFFER.MAX_AGE;
+      while (samples.length > 1 && (samples[0].timestamp < cutoff || samples.length > SAMPLE_BUFFER.MAX_SAMPLES)) {
+        samples.shift();
+      }
+      buffers.set(user.userId, samples);
+    }
+
+    for (const userId of buffers.keys()) {
+      if (!visible.has(userId)) buffers.delete(userId);
+    }
+
+    if (received) setAnimating(true);
+  }, [users, currentUserId, getServerTime, interpolationDelay]);
+
+  // Re-render every frame until every cursor has reached its latest sample
+  useEffect(() => {
+    if (!animating) return;
+
+    let frameId = requestAnimationFrame(function render() {
+      setFrame(frame => frame + 1);
+
+      const renderTime = getServerTime() - interpolationDelay;
+      const settled = Array.from(samplesRef.current.values())
+        .every(samples => samples[samples.length - 1].timestamp <= renderTime);
+      if (settled) {
+        setAnimating(false);
+        return;
+      }
+      frameId = requestAnimationFrame(render);
+    });
+    return () => cancelAnimationFrame(frameId);
+  }, [animating, getServerTime, interpolationDelay]);
+
+  // Settled cursors still have to follow scrolling and resizing
+  const hasCursors = otherUsers.length > 0;
+  useEffect(() => {
+    if (!hasCursors) return;
+
+    const rerender = () => setFrame(frame => frame + 1);
+    window.addEventListener('scroll', rerender, { capture: true, passive: true });
+    window.addEventListener('resize', rerender);
+    return () => {
+      window.removeEventListener('scroll', rerender, { capture: true });
+      window.removeEventListener('resize', rerender);
+    };
+  }, [hasCursors]);
+
+  const renderTime = getServerTime() - interpolationDelay;
+
   return (
     <div className="fixed inset-0 pointer-events-none z-40">
-      {otherUsers.map(user => (
-        <GameCursor
-          key={user.userId}
-          user={user}
-          smoothing={smoothing}
-          showTrail={showTrail}
-          trailLength={trailLength}
-        />
-      ))}
+      {otherUsers.map(user => {
+        const sample = sampleAt(samplesRef.current.get(user.userId) ?? [user.mousePosition!], renderTime);
+        return (
+          <GameCursor
+            key={user.userId}
+            user={user}
+            position={sample && toViewportPosition(sample)}
+            showTrail={showTrail}
+            trailLength={trailLength}
+          />
+        );
+      })}
     </div>
   );
 }
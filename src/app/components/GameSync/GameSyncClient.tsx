@@ -1,10 +1,14 @@
 // components/GameSync/GameSyncClient.tsx
 'use client';
 
-import { useState, useEffect } from 'react';
+import { useState, useEffect, useMemo } from 'react';
 import { type User } from "@/db";
 import { useGameSync } from "@/app/hooks/useGameSync";
+import { SharedStateContext, type SharedStateContextValue } from "@/app/hooks/useSharedState";
+import { CollaborativeDocContext, type CollaborativeDocContextValue } from "@/app/hooks/useCollaborativeDoc";
+import { RoomChatContext, type RoomChatContextValue } from "@/app/hooks/useRoomChat";
 import { GameCursors, GameSyncStatus } from './GameCursor';
+import type { GameActionData, GameUser } from "@/app/shared/realtimeProtocol";
 
 interface GameSyncClientProps {
   currentUser: User | null;
@@ -12,7 +16,7 @@ interface GameSyncClientProps {
   enableCursors?: boolean;
   enableTrail?: boolean;
   showStatus?: boolean;
-  cursorSmoothing?: number;
+  interpolationDelay?: number; // ms; defaults to two server ticks
   trailLength?: number;
   children?: React.ReactNode;
 }
@@ -23,7 +27,7 @@ export default function GameSyncClient({
   enableCursors = true,
   enableTrail = true,
   showStatus = true,
-  cursorSmoothing = 0.8,
+  interpolationDelay,
   trailLength = 5,
   children
 }: GameSyncClientProps) {
@@ -40,7 +44,16 @@ export default function GameSyncClient({
     sendGameAction,
     updateScore,
     updateLevel,
-    connectionStatus
+    connectionStatus,
+    getServerTime,
+    tickRate,
+    sharedState,
+    sendStateOperation,
+    collaborativeDocs,
+    chatMessages,
+    sendChat,
+    editChat,
+    deleteChat
   } = useGameSync({
     userId: currentUser?.id,
     username: currentUser?.username,
@@ -50,6 +63,20 @@ export default function GameSyncClient({
     updateRate: 16 // ~60fps
   });
 
+  // Lets children use the room's shared state, collaborative docs and chat
+  const sharedStateContext = useMemo(
+    () => ({ store: sharedState, sendOperation: sendStateOperation }),
+    [sharedState, sendStateOperation]
+  );
+  const collaborativeDocContext = useMemo(
+    () => ({ docs: collaborativeDocs, users, currentUserId }),
+    [collaborativeDocs, users, currentUserId]
+  );
+  const roomChatContext = useMemo(
+    () => ({ messages: chatMessages, currentUserId, isConnected, send: sendChat, edit: editChat, remove: deleteChat }),
+    [chatMessages, currentUserId, isConnected, sendChat, editChat, deleteChat]
+  );
+
   useEffect(() => {
     setIsMounted(true);
   }, []);
@@ -57,72 +84,97 @@ export default function GameSyncClient({
   // Show loading state during SSR or initial hydration
   if (!isMounted) {
     return (
-      <div className="relative">
-        {children}
-        {showStatus && (
-          <div className="fixed top-4 right-4 px-3 py-2 rounded-lg shadow-lg bg-gray-100 text-gray-600 z-50">
-            <div className="flex items-center gap-2 text-sm font-medium">
-              <div className="w-2 h-2 bg-gray-400 rounded-full animate-pulse"></div>
-              <span>Initializing...</span>
+      <GameSyncProviders sharedState={sharedStateContext} collaborativeDocs={collaborativeDocContext} roomChat={roomChatContext}>
+        <div className="relative">
+          {children}
+          {showStatus && (
+            <div className="fixed top-4 right-4 px-3 py-2 rounded-lg shadow-lg bg-gray-100 text-gray-600 z-50">
+              <div className="flex items-center gap-2 text-sm font-medium">
+                <div className="w-2 h-2 bg-gray-400 rounded-full animate-pulse"></div>
+                <span>Initializing...</span>
+              </div>
             </div>
-          </div>
-        )}
-      </div>
+          )}
+        </div>
+      </GameSyncProviders>
     );
   }
 
   return (
-    <div className="relative">
-      {/* Main content */}
-      {children}
+    <GameSyncProviders sharedState={sharedStateContext} collaborativeDocs={collaborativeDocContext} roomChat={roomChatContext}>
+      <div className="relative">
+        {/* Main content */}
+        {children}
       
-      {/* Game cursors overlay */}
-      {enableCursors && (
-        <GameCursors
-          users={users}
-          currentUserId={currentUserId}
-          smoothing={cursorSmoothing}
-          showTrail={enableTrail}
-          trailLength={trailLength}
-        />
-      )}
+        {/* Game cursors overlay */}
+        {enableCursors && (
+          <GameCursors
+            users={users}
+            currentUserId={currentUserId}
+            getServerTime={getServerTime}
+            interpolationDelay={interpolationDelay ?? 2000 / tickRate}
+            showTrail={enableTrail}
+            trailLength={trailLength}
+          />
+        )}
       
-      {/* Connection status */}
-      {showStatus && (
-        <GameSyncStatus
-          isConnected={isConnected}
-          totalUsers={totalUsers}
-          connectionStatus={connectionStatus}
-        />
-      )}
+        {/* Connection status */}
+        {showStatus && (
+          <GameSyncStatus
+            isConnected={isConnected}
+            totalUsers={totalUsers}
+            connectionStatus={connectionStatus}
+          />
+        )}
       
-      {/* Debug panel in development */}
-      {process.env.NODE_ENV === 'development' && (
-        <GameSyncDebugPanel
-          users={users}
-          currentUser={currentUser}
-          currentUserId={currentUserId}
-          currentUsername={currentUsername}
-          isConnected={isConnected}
-          connectionStatus={connectionStatus}
-          sendGameAction={sendGameAction}
-          updateScore={updateScore}
-          updateLevel={updateLevel}
-        />
-      )}
-    </div>
+        {/* Debug panel in development */}
+        {process.env.NODE_ENV === 'development' && (
+          <GameSyncDebugPanel
+            users={users}
+            currentUser={currentUser}
+            currentUserId={currentUserId}
+            currentUsername={currentUsername}
+            isConnected={isConnected}
+            connectionStatus={connectionStatus}
+            sendGameAction={sendGameAction}
+            updateScore={updateScore}
+            updateLevel={updateLevel}
+          />
+        )}
+      </div>
+    </GameSyncProviders>
+  );
+}
+
+// Room-level channels for children: useSharedState, useCollaborativeDoc and useRoomChat
+interface GameSyncProvidersProps {
+  sharedState: SharedStateContextValue;
+  collaborativeDocs: CollaborativeDocContextValue;
+  roomChat: RoomChatContextValue;
+  children: React.ReactNode;
+}
+
+function GameSyncProviders({ sharedState, collaborativeDocs, roomChat, children }: GameSyncProvidersProps) {
+  return (
+    <SharedStateContext.Provider value={sharedState}>
+      <CollaborativeDocContext.Provider value={collaborativeDocs}>
+        <RoomChatContext.Provider value={roomChat}>
+          {children}
+        </RoomChatContext.Provider>
+      </CollaborativeDocContext.Provider>
+    </SharedStateContext.Provider>
   );
 }
 
 // Debug panel for development
 interface GameSyncDebugPanelProps {
-  users: any[];
+  users: GameUser[];
   currentUser: User | null;
   currentUserId: string | null;
   currentUsername: string | null;
   isConnected: boolean;
   connectionStatus: string;
-  sendGameAction: (action: any) => void;
+  sendGameAction: (action: GameActionData) => void;
   updateScore: (score: number) => void;
   updateLevel: (level: number) => void;
 }
@@ -189,7 +241,7 @@ function GameSyncDebugPanel({
               <span style={{ color: user.cursorColor }}>●</span> {user.username}
               {user.mousePosition && (
                 <span className="text-gray-400">
-                  {' '}({Math.round(user.mousePosition.x)}, {Math.round(user.mousePosition.y)})
+                  {' '}({Math.round(user.mousePosition.x * 100)}%, {Math.round(user.mousePosition.y * 100)}%{user.mousePosition.anchor && ` @${user.mousePosition.anchor}`})
                 </span>
               )}
               {user.score !== undefined && (
@@ -235,7 +287,7 @@ function GameSyncDebugPanel({
             </div>
             
             <button
-              onClick={() => sendGameAction({ type: 'test', data: 'Hello from debug!' })}
+              onClick={() => sendGameAction({ gameData: { test: 'Hello from debug!' } })}
               className="bg-purple-600 px-2 py-1 rounded text-xs hover:bg-purple-700 w-full"
               disabled={!isConnected}
             >
@@ -0,0 +1,122 @@
+// components/GameSync/RoomChat.tsx
+'use client';
+
+import { useEffect, useRef, useState } from 'react';
+import { useRoomChat } from "@/app/hooks/useRoomChat";
+import { MAX_CHAT_MESSAGE_LENGTH, type ChatMessage } from "@/app/shared/realtimeProtocol";
+
+interface RoomChatProps {
+  height?: number; // px of the scrolling message list
+}
+
+export function RoomChat({ height = 320 }: RoomChatProps) {
+  const { messages, currentUserId, isConnected, send, edit, remove } = useRoomChat();
+  const [draft, setDraft] = useState('');
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const listRef = useRef<HTMLDivElement>(null);
+
+  // Follow new messages
+  useEffect(() => {
+    const list = listRef.current;
+    if (list) list.scrollTop = list.scrollHeight;
+  }, [messages.length]);
+
+  const submit = (e: React.FormEvent) => {
+    e.preventDefault();
+    const text = draft.trim();
+    if (!text) return;
+
+    if (editingId) {
+      edit(editingId, text);
+      setEditingId(null);
+    } else {
+      send(text);
+    }
+    setDraft('');
+  };
+
+  const startEdit = (message: ChatMessage) => {
+    setEditingId(message.id);
+    setDraft(message.text);
+  };
+
+  const cancelEdit = () => {
+    setEditingId(null);
+    setDraft('');
+  };
+
+  return (
+    <div className="flex flex-col gap-3">
+      <div ref={listRef} className="overflow-y-auto space-y-2 pr-1" style={{ height }}>
+        {messages.length === 0 ? (
+          <p className="text-sm text-gray-400 text-center py-8">No messages yet - say hello!</p>
+        ) : (
+          messages.map(message => (
+            <ChatMessageRow
+              key={message.id}
+              message={message}
+              isOwn={message.userId === currentUserId}
+              onEdit={() => startEdit(message)}
+              onDelete={() => remove(message.id)}
+            />
+          ))
+        )}
+      </div>
+
+      <form onSubmit={submit} className="flex gap-2">
+        <input
+          value={draft}
+          onChange={(e) => setDraft(e.target.value)}
+          maxLength={MAX_CHAT_MESSAGE_LENGTH}
+          placeholder={isConnected ? 'Type a message...' : 'Connecting...'}
+          disabled={!isConnected}
+          className="flex-1 px-3 py-2 border border-gray-300 rounded-lg text-sm focus:outline-none focus:ring-2 focus:ring-indigo-500 disabled:bg-gray-100"
+        />
+        {editingId && (
+          <button
+            type="button"
+            onClick={cancelEdit}
+            className="px-3 py-2 rounded-lg text-sm text-gray-600 hover:bg-gray-100"
+          >
+            Cancel
+          </button>
+        )}
+        <button
+          type="submit"
+          disabled={!isConnected || !draft.trim()}
+          className="px-4 py-2 rounded-lg text-sm font-medium bg-indigo-600 text-white hover:bg-indigo-700 disabled:opacity-50"
+        >
+          {editingId ? 'Save' : 'Send'}
+        </button>
+      </form>
+    </div>
+  );
+}
+
+interface ChatMessageRowProps {
+  message: ChatMessage;
+  isOwn: boolean;
+  onEdit: () => void;
+  onDelete: () => void;
+}
+
+function ChatMessageRow({ message, isOwn, onEdit, onDelete }: ChatMessageRowProps) {
+  return (
+    <div className={`group rounded-lg px-3 py-2 text-sm ${isOwn ? 'bg-indigo-50' : 'bg-gray-50'}`}>
+      <div className="flex items-baseline gap-2">
+        <span className="font-semibold text-gray-800">{message.username}</span>
+        <span className="text-xs text-gray-400">
+          {new Date(message.sentAt).toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' })}
+          {message.editedAt && ' (edited)'}
+        </span>
+        {isOwn && (
+          <span className="ml-auto hidden group-hover:flex gap-2 text-xs">
+            <button onClick={onEdit} className="text-indigo-600 hover:underline">Edit</button>
+            <button onClick={onDelete} className="text-red-600 hover:underline">Delete</button>
+          </span>
+        )}
+      </div>
+      <p className="text-gray-700 whitespace-pre-wrap break-words">{message.text}</p>
+    </div>
+  );
+}
@@ -9,7 +9,7 @@ interface PresenceClientProps {
 }
 
 export default function PresenceClient({ currentUser }: PresenceClientProps) {
-  const { presence, otherUsers, isConnected, totalUsers, currentUserId, currentUsername } = usePresence({
+  const { presence, otherUsers, isConnected, totalUsers, currentUserId, currentUsername, setStatus, serverTimeOffset } = usePresence({
     userId: currentUser?.id, // Will use generated ID if null
     username: currentUser?.username, // Will use generated username if null
     enabled: true,
@@ -31,6 +31,9 @@ export default function PresenceClient({ currentUser }: PresenceClientProps) {
       otherUsers={otherUsers}
       isConnected={isConnected}
       totalUsers={totalUsers}
+      currentStatus={presence.find(user => user.userId === currentUserId)?.status}
+      onStatusChange={(status) => setStatus({ status })}
+      serverTimeOffset={serverTimeOffset}
     />
   );
 }
\ No newline at end of file
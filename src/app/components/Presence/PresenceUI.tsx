@@ -1,21 +1,69 @@
 'use client';
 
+import { useEffect, useState } from 'react';
 import { type User } from "@/db";
-
-interface PresenceUser {
-  userId: string;
-  username: string;
-  joinedAt: number;
-}
+import { PRESENCE_STATUSES, type PresenceStatus, type PresenceUser } from "@/app/shared/realtimeProtocol";
 
 interface PresenceUIProps {
   currentUser: User | null;
   otherUsers: PresenceUser[];
   isConnected: boolean;
   totalUsers: number;
+  currentStatus?: PresenceStatus;
+  onStatusChange?: (status: PresenceStatus) => void;
+  serverTimeOffset?: number; // See usePresence
+}
+
+// How often "idle for 5m" labels are refreshed
+const ACTIVITY_LABEL_REFRESH = 30000;
+
+const STATUS_STYLES: Record<PresenceStatus, { dot: string; label: string }> = {
+  active: { dot: 'bg-green-500', label: 'Active' },
+  idle: { dot: 'bg-yellow-400', label: 'Idle' },
+  away: { dot: 'bg-gray-400', label: 'Away' },
+  busy: { dot: 'bg-red-500', label: 'Busy' },
+};
+
+// e.g. "Busy - 📅 In a meeting"
+function describeStatus(user: PresenceUser): string {
+  const label = STATUS_STYLES[user.status ?? 'active'].label;
+  const custom = [user.statusEmoji, user.statusText].filter(Boolean).join(' ');
+  return custom ? `${label} - ${custom}` : label;
+}
+
+// e.g. ", 3 tabs" for someone connected from more than one tab
+function describeConnections(user: PresenceUser): string {
+  return user.connections > 1 ? `, ${user.connections} tabs` : '';
+}
+
+function isTyping(user: PresenceUser): boolean {
+  return user.flags?.includes('typing') ?? false;
+}
+
+// e.g. "idle for 5m", or null while the user is active
+function describeActivity(user: PresenceUser, serverNow: number): string | null {
+  if (!user.activity || user.activity === 'active') return null;
+  return `${user.activity === 'idle' ? 'idle' : 'away'} for ${formatDuration(serverNow - user.activitySince)}`;
+}
+
+function formatDuration(ms: number): string {
+  const minutes = Math.floor(Math.max(0, ms) / 60000);
+  if (minutes < 1) return '<1m';
+  if (minutes < 60) return `${minutes}m`;
+  return `${Math.floor(minutes / 60)}h`;
 }
 
-export default function PresenceUI({ currentUser, otherUsers, isConnected, totalUsers }: PresenceUIProps) {
+export default function PresenceUI({ currentUser, otherUsers, isConnected, totalUsers, currentStatus, onStatusChange, serverTimeOffset = 0 }: PresenceUIProps) {
+  const [now, setNow] = useState(() => Date.now());
+
+  useEffect(() => {
+    const interval = setInterval(() => setNow(Date.now()), ACTIVITY_LABEL_REFRESH);
+    return () => clearInterval(interval);
+  }, []);
+
+  // Activity timestamps come from the server's clock
+  const serverNow = now + serverTimeOffset;
+
   // Minimal presence indicator for mobile/small screens or fallback
   const MinimalPresence = () => (
     <div className="fixed bottom-4 right-4 z-50 sm:hidden">
@@ -92,15 +140,27 @@ export default function PresenceUI({ currentUser, otherUsers, isConnected, total
             
             {/* Avatar circles with scroll container */}
             <div className={`flex gap-1 ${shouldScroll ? 'max-w-48 overflow-x-auto scrollbar-thin scrollbar-thumb-gray-300 scrollbar-track-transparent' : ''}`}>
-              {otherUsers.map((user) => (
-                <div 
-                  key={user.userId} 
-                  className="w-8 h-8 bg-blue-500 text-white rounded-full flex items-center justify-center text-xs font-semibold flex-shrink-0"
-                  title={`${user.username} joined ${new Date(user.joinedAt).toLocaleTimeString()}`}
-                >
-                  {user.username[0]?.toUpperCase()}
-                </div>
-              ))}
+              {otherUsers.map((user) => {
+                const inactivity = describeActivity(user, serverNow);
+                return (
+                  <div 
+                    key={user.userId} 
+                    className={`relative flex-shrink-0 ${inactivity ? 'opacity-50' : ''}`}
+                    title={`${user.username} (${describeStatus(user)}${inactivity ? `, ${inactivity}` : ''}${describeConnections(user)}) joined ${new Date(user.joinedAt).toLocaleTimeString()}`}
+                  >
+                    <div className="w-8 h-8 bg-blue-500 text-white rounded-full flex items-center justify-center text-xs font-semibold">
+                      {user.username[0]?.toUpperCase()}
+                    </div>
+                    <span className={`absolute bottom-0 right-0 w-2.5 h-2.5 rounded-full border-2 border-white ${STATUS_STYLES[user.status ?? 'active'].dot}`}></span>
+                    {user.statusEmoji && (
+                      <span className="absolute -top-1 -right-1 text-[10px] leading-none">{user.statusEmoji}</span>
+                    )}
+                    {isTyping(user) && (
+                      <span className="absolute -bottom-1 -left-1 px-1 rounded-full bg-white text-gray-500 text-[10px] leading-none shadow animate-pulse">…</span>
+                    )}
+                  </div>
+                );
+              })}
             </div>
           </div>
         </div>
@@ -112,20 +172,41 @@ export default function PresenceUI({ currentUser, otherUsers, isConnected, total
             <div className={`text-sm ${shouldScroll ? 'max-h-20 overflow-y-auto scrollbar-thin scrollbar-thumb-gray-300 scrollbar-track-transparent' : ''}`}>
               <div className="flex flex-wrap gap-1">
                 {/* Show current user first */}
-                <span className="inline-flex items-center px-2 py-1 rounded-full text-xs font-medium bg-blue-100 text-blue-800">
+                <span className="inline-flex items-center gap-1 px-2 py-1 rounded-full text-xs font-medium bg-blue-100 text-blue-800">
                   {currentUser.username} (you)
+                  {onStatusChange && (
+                    <select
+                      value={currentStatus ?? 'active'}
+                      onChange={(e) => onStatusChange(e.target.value as PresenceStatus)}
+                      className="bg-transparent text-blue-800 text-xs focus:outline-none cursor-pointer"
+                      aria-label="Your status"
+                    >
+                      {PRESENCE_STATUSES.map(status => (
+                        <option key={status} value={status}>{STATUS_STYLES[status].label}</option>
+                      ))}
+                    </select>
+                  )}
                 </span>
                 
                 {/* Show other users */}
-                {otherUsers.map((user) => (
-                  <span 
-                    key={user.userId}
-                    className="inline-flex items-center px-2 py-1 rounded-full text-xs font-medium bg-gray-100 text-gray-800"
-                    title={`Joined ${new Date(user.joinedAt).toLocaleTimeString()}`}
-                  >
-                    {user.username}
-                  </span>
-                ))}
+                {otherUsers.map((user) => {
+                  const inactivity = describeActivity(user, serverNow);
+                  return (
+                    <span 
+                      key={user.userId}
+                      className={`inline-flex items-center gap-1 px-2 py-1 rounded-full text-xs font-medium bg-gray-100 text-gray-800 ${inactivity ? 'opacity-60' : ''}`}
+                      title={`${describeStatus(user)}${describeConnections(user)} - joined ${new Date(user.joinedAt).toLocaleTimeString()}`}
+                    >
+                      <span className={`w-1.5 h-1.5 rounded-full ${STATUS_STYLES[user.status ?? 'active'].dot}`}></span>
+                      {user.statusEmoji && <span>{user.statusEmoji}</span>}
+                      {user.username}
+                      {user.connections > 1 && <span className="text-gray-400 font-normal">×{user.connections}</span>}
+                      {user.statusText && <span className="text-gray-500 font-normal">· {user.statusText}</span>}
+                      {isTyping(user) && <span className="text-gray-400 font-normal italic">typing…</span>}
+                      {inactivity && <span className="text-gray-400 font-normal">({inactivity})</span>}
+                    </span>
+                  );
+                })}
               </div>
             </div>
           </div>
@@ -1,6 +1,8 @@
 // src/app/gamesync/routes.ts
 import { route } from "rwsdk/router";
 import { env } from "cloudflare:workers";
+import { forwardToRoom } from "@/app/rooms/access";
+import { listActiveRooms } from "@/app/rooms/directory";
 
 /**
  * Helper function to extract room key from request
@@ -39,34 +41,34 @@ function getGameSyncDurableObject(key: string) {
  */
 export const gameSyncRoutes = [
   // Join a game room
-  route("/join", async ({ request }) => {
+  route("/join", async ({ request, ctx }) => {
     const key = await extractRoomKey(request);
     console.log('🎮 GameSync join - using key:', key);
     
     const durableObject = getGameSyncDurableObject(key);
-    return durableObject.fetch(request);
+    return forwardToRoom(durableObject, request, key, ctx);
   }),
 
   // Leave a game room
-  route("/leave", async ({ request }) => {
+  route("/leave", async ({ request, ctx }) => {
     const key = await extractRoomKey(request);
     console.log('🎮 GameSync leave - using key:', key);
     
     const durableObject = getGameSyncDurableObject(key);
-    return durableObject.fetch(request);
+    return forwardToRoom(durableObject, request, key, ctx);
   }),
 
   // Get current game state
-  route("/state", async ({ request }) => {
+  route("/state", async ({ request, ctx }) => {
     const key = await extractRoomKey(request);
     console.log('🎮 GameSync state - using key:', key);
     
     const durableObject = getGameSyncDurableObject(key);
-    return durableObject.fetch(request);
+    return forwardToRoom(durableObject, request, key, ctx);
   }),
 
   // WebSocket connection endpoint
-  route("/ws", async ({ request }) => {
+  route("/ws", async ({ request, ctx }) => {
     // Handle WebSocket upgrades for GameSync
     if (request.headers.get("Upgrade") === "websocket") {
       const url = new URL(request.url);
@@ -75,40 +77,35 @@ export const gameSyncRoutes = [
       console.log('🎮 GameSync WebSocket connecting with key:', key);
       
       const durableObject = getGameSyncDurableObject(key);
-      return durableObject.fetch(request);
+      return forwardToRoom(durableObject, request, key, ctx);
     }
     
     return new Response("WebSocket upgrade required", { status: 400 });
   }),
 
-  // Health check endpoint
-  route("/health", async ({ request }) => {
-    return new Response(JSON.stringify({
+  // Health check endpoint - with ?key= it includes that room's connection and message counters
+  route("/health", async ({ request, ctx }) => {
+    const health: Record<string, unknown> = {
       status: 'healthy',
       service: 'GameSync',
       timestamp: new Date().toISOString(),
       version: '1.0.0'
-    }), {
+    };
+    
+    const key = new URL(request.url).searchParams.get('key');
+    if (key) {
+      const response = await forwardToRoom(getGameSyncDurableObject(key), request, key, ctx);
+      if (!response.ok) return response;
+      health.room = await response.json();
+    }
+    
+    return new Response(JSON.stringify(health), {
       headers: { 'Content-Type': 'application/json' }
     });
   }),
 
-  // Game room info endpoint
+  // Active room directory (see listActiveRooms for paging/sorting params)
   route("/rooms", async ({ request }) => {
-    // This could be expanded to list active rooms, room stats, etc.
-    const url = new URL(request.url);
-    const key = url.searchParams.get('key') || '/default';
-    
-    console.log('🎮 GameSync room info - using key:', key);
-    
-    const durableObject = getGameSyncDurableObject(key);
-    
-    // Forward the request to get room state
-    const modifiedRequest = new Request(request.url.replace('/rooms', '/state'), {
-      method: 'GET',
-      headers: request.headers
-    });
-    
-    return durableObject.fetch(modifiedRequest);
+    return listActiveRooms(request, 'gamesync');
   })
 ];
\ No newline at end of file
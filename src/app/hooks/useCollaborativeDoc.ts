@@ -0,0 +1,84 @@
+// hooks/useCollaborativeDoc.ts
+'use client';
+
+import { createContext, useCallback, useContext, useEffect, useMemo, useState, useSyncExternalStore } from 'react';
+import type * as Y from 'yjs';
+import type { CollaborativeDocs } from '@/app/lib/collaborativeDocs';
+import type { GameUser } from '@/app/shared/realtimeProtocol';
+
+export interface CollaborativeDocContextValue {
+  docs: CollaborativeDocs;
+  users: GameUser[];
+  currentUserId: string | null;
+}
+
+// Provided by GameSyncClient for the room it's connected to
+export const CollaborativeDocContext = createContext<CollaborativeDocContextValue | null>(null);
+
+export interface DocPeer {
+  userId: string;
+  username: string;
+  color: string;
+  state: Record<string, unknown>;
+}
+
+interface UseCollaborativeDocReturn {
+  doc: Y.Doc;
+  text: Y.Text;
+  map: Y.Map<unknown>;
+  array: Y.Array<unknown>;
+  synced: boolean;
+  peers: DocPeer[]; // Other users sharing awareness state for this doc
+  setAwareness: (state: Record<string, unknown> | null) => void;
+}
+
+/**
+ * Open the room's collaborative doc `docId` (a Yjs document) for as long as the
+ * component is mounted. Re-renders on every change to the doc; `text`, `map` and
+ * `array` are its default shared types, anything else can be read off `doc`.
+ */
+export function useCollaborativeDoc(docId: string): UseCollaborativeDocReturn {
+  const context = useContext(CollaborativeDocContext);
+  if (!context) {
+    throw new Error('useCollaborativeDoc must be used inside GameSyncClient');
+  }
+
+  const { docs, users, currentUserId } = context;
+  const doc = useMemo(() => docs.get(docId), [docs, docId]);
+  const synced = useSyncExternalStore(docs.subscribe, () => docs.isSynced(docId), () => false);
+  const [, setVersion] = useState(0);
+
+  useEffect(() => {
+    docs.retain(docId);
+    return () => docs.release(docId);
+  }, [docs, docId]);
+
+  useEffect(() => {
+    const onUpdate = () => setVersion(version => version + 1);
+    doc.on('update', onUpdate);
+    return () => doc.off('update', onUpdate);
+  }, [doc]);
+
+  const peers = useMemo(() => users
+    .filter(user => user.userId !== currentUserId && user.awareness?.[docId])
+    .map(user => ({
+      userId: user.userId,
+      username: user.username,
+      color: user.cursorColor,
+      state: user.awareness![docId] as Record<string, unknown>
+    })), [users, currentUserId, docId]);
+
+  const setAwareness = useCallback((state: Record<string, unknown> | null) => {
+    docs.setAwareness(docId, state);
+  }, [docs, docId]);
+
+  return {
+    doc,
+    text: doc.getText('text'),
+    map: doc.getMap('map'),
+    array: doc.getArray('array'),
+    synced,
+    peers,
+    setAwareness
+  };
+}
@@ -2,22 +2,25 @@
 'use client';
 
 import { useEffect, useState, useRef, useCallback } from 'react';
-
-interface MousePosition {
-  x: number;
-  y: number;
-  timestamp: number;
-}
-
-interface GameUser {
-  userId: string;
-  username: string;
-  mousePosition: MousePosition | null;
-  cursorColor: string;
-  score?: number;
-  level?: number;
-  gameData?: Record<string, any>;
-}
+import {
+  PROTOCOL_VERSION,
+  applyRosterPatch,
+  checkRosterSeq,
+  type ChatMessage,
+  decodeCursorBatch,
+  encodeCursorMove,
+  type GameActionData,
+  type GameClientMessage,
+  type GameServerMessage,
+  type GameUser,
+  type RoomEventMessage,
+  type SharedStateOperation,
+} from '@/app/shared/realtimeProtocol';
+import { getAnonymousUserId } from '@/app/lib/anonymousIdentity';
+import { toSharedPosition } from '@/app/lib/cursorCoordinates';
+import { SharedStateStore } from '@/app/lib/sharedStateStore';
+import { CollaborativeDocs } from '@/app/lib/collaborativeDocs';
+import { getRealtimeConnection, type RealtimeChannel } from '@/app/lib/realtimeConnection';
 
 interface UseGameSyncOptions {
   userId?: string;
@@ -28,6 +31,8 @@ interface UseGameSyncOptions {
   updateRate?: number;
 }
 
+type RoomEventHandler = (event: RoomEventMessage) => void;
+
 interface UseGameSyncReturn {
   users: GameUser[];
   otherUsers: GameUser[];
@@ -35,10 +40,21 @@ interface UseGameSyncReturn {
   totalUsers: number;
   currentUserId: string | null;
   currentUsername: string | null;
-  sendGameAction: (action: any) => void;
+  sendGameAction: (action: GameActionData) => void;
   updateScore: (score: number) => void;
   updateLevel: (level: number) => void;
   connectionStatus: 'connecting' | 'connected' | 'disconnected' | 'error';
+  getServerTime: () => number; // Local estimate of the server clock, for interpolating cursors
+  tickRate: number; // Server broadcast rate in Hz
+  sharedState: SharedStateStore; // Room-level shared state, see useSharedState
+  sendStateOperation: (operation: SharedStateOperation) => void;
+  collaborativeDocs: CollaborativeDocs; // CRDT docs on this connection, see useCollaborativeDoc
+  sendEvent: (event: string, payload?: unknown, to?: string[]) => void; // Fire-and-forget, to everyone else or the userIds in `to`
+  onEvent: (handler: RoomEventHandler) => () => void; // Returns an unsubscribe function
+  chatMessages: ChatMessage[]; // Oldest first
+  sendChat: (text: string) => void;
+  editChat: (id: string, text: string) => void;
+  deleteChat: (id: string) => void;
 }
 
 // Client-side configuration (should match server constants)
@@ -48,8 +64,18 @@ const CLIENT_CONFIG = {
   HEARTBEAT_INTERVAL: 10000,
   RECONNECT_DELAY: 3000,
   MAX_RECONNECT_ATTEMPTS: 5,
+  MAX_CHAT_MESSAGES: 100,
+  DEFAULT_TICK_RATE: 30, // Until the server reports its own
+  CLOCK_OFFSET_SMOOTHING: 0.1, // Weight of each new server clock sample
 };
 
+// Relayed by the server to every socket but the sender's, so other tabs sharing the channel need a copy
+const PEER_ECHOED_MESSAGES: ReadonlySet<GameClientMessage['type']> = new Set(['doc_update', 'broadcast']);
+
+function sendGameMessage(ws: RealtimeChannel, message: GameClientMessage) {
+  ws.send(JSON.stringify(message), PEER_ECHOED_MESSAGES.has(message.type));
+}
+
 export function useGameSync({
   userId: providedUserId,
   username: providedUsername,
@@ -59,6 +85,7 @@ export function useGameSync({
   updateRate = CLIENT_CONFIG.MOUSE_UPDATE_RATE
 }: UseGameSyncOptions = {}): UseGameSyncReturn {
   const [users, setUsers] = useState<GameUser[]>([]);
+  const [chatMessages, setChatMessages] = useState<ChatMessage[]>([]);
   const [isConnected, setIsConnected] = useState(false);
   const [connectionStatus, setConnectionStatus] = useState<'connecting' | 'connected' | 'disconnected' | 'error'>('disconnected');
   const [isMounted, setIsMounted] = useState(false);
@@ -67,32 +94,70 @@ export function useGameSync({
   const [effectiveUserId, setEffectiveUserId] = useState<string>('');
   const [effectiveUsername, setEffectiveUsername] = useState<string>('');
   const [cursorColor, setCursorColor] = useState<string>('#FF6B6B');
+  const [tickRate, setTickRate] = useState<number>(CLIENT_CONFIG.DEFAULT_TICK_RATE);
   
   // Refs for managing connections and state
-  const wsRef = useRef<WebSocket | null>(null);
+  // A channel on the page's realtime connection, shared with this user's other tabs in the room
+  const wsRef = useRef<RealtimeChannel | null>(null);
   const heartbeatRef = useRef<NodeJS.Timeout | null>(null);
   const mouseThrottleRef = useRef<NodeJS.Timeout | null>(null);
   const lastMousePositionRef = useRef<{ x: number; y: number } | null>(null);
+  const lastMouseSentAtRef = useRef<number | null>(null);
+  // Set once the server accepts the `binary_cursor` capability for this socket
+  const binaryCursorsRef = useRef(false);
   const reconnectTimeoutRef = useRef<NodeJS.Timeout | null>(null);
   const reconnectAttemptsRef = useRef(0);
   const mountedRef = useRef(true);
+  // Sequence id of the last snapshot/patch applied; null while waiting for a snapshot
+  const lastSeqRef = useRef<number | null>(null);
+  // Estimated server clock minus local clock; null until the first server timestamp
+  const serverTimeOffsetRef = useRef<number | null>(null);
+  const sharedStateRef = useRef<SharedStateStore | null>(null);
+  sharedStateRef.current ??= new SharedStateStore();
+  const collaborativeDocsRef = useRef<CollaborativeDocs | null>(null);
+  collaborativeDocsRef.current ??= new CollaborativeDocs();
+  const eventHandlersRef = useRef<Set<RoomEventHandler>>(new Set());
 
   // Initialize client-side only after mount
   useEffect(() => {
-    if (typeof window !== 'undefined') {
-      const sessionId = `session_${Date.now()}_${Math.random().toString(36).substring(2, 15)}`;
-      const tabId = `tab_${Date.now()}_${Math.random().toString(36).substring(2, 9)}`;
-      const newUserId = providedUserId || `anon_${sessionId}_${tabId}`;
+    if (typeof window === 'undefined') return;
+    let cancelled = false;
+
+    const initialize = async () => {
+      // Anonymous visitors use the id bound to their cookie - it's the only one the server accepts
+      const newUserId = providedUserId || await getAnonymousUserId();
       const newUsername = providedUsername || `user-${Math.random().toString(36).substring(2, 7)}`;
+      if (cancelled) return;
       
       setEffectiveUserId(newUserId);
       setEffectiveUsername(newUsername);
       setIsMounted(true);
       
       console.log('🎮 GameSync IDs initialized:', { userId: newUserId, username: newUsername });
-    }
+    };
+
+    initialize().catch(error => {
+      console.error('❌ Failed to initialize GameSync identity:', error);
+    });
+
+    return () => {
+      cancelled = true;
+    };
   }, [providedUserId, providedUsername]);
 
+  // Track the server clock from timestamps it sends, smoothing out network jitter
+  const syncServerClock = useCallback((serverTime: number) => {
+    const sample = serverTime - Date.now();
+    const offset = serverTimeOffsetRef.current;
+    serverTimeOffsetRef.current = offset === null
+      ? sample
+      : offset + (sample - offset) * CLIENT_CONFIG.CLOCK_OFFSET_SMOOTHING;
+  }, []);
+
+  const getServerTime = useCallback(() => {
+    return Date.now() + (serverTimeOffsetRef.current ?? 0);
+  }, []);
+
   const cleanup = useCallback(() => {
     if (heartbeatRef.current) {
       clearInterval(heartbeatRef.current);
@@ -106,14 +171,14 @@ export function useGameSync({
       clearTimeout(reconnectTimeoutRef.current);
       reconnectTimeoutRef.current = null;
     }
-    if (wsRef.current && wsRef.current.readyState === WebSocket.OPEN) {
-      wsRef.current.close();
-    }
+    // The channel stays open on the server while another tab or component still uses it
+    wsRef.current?.close();
     wsRef.current = null;
   }, []);
 
-  const joinGame = useCallback(async () => {
-    if (!enabled || !effectiveUserId) return;
+  // Returns the signed join token required by the WebSocket upgrade
+  const joinGame = useCallback(async (): Promise<string | null> => {
+    if (!enabled || !effectiveUserId) return null;
 
     try {
       setConnectionStatus('connecting');
@@ -134,11 +199,13 @@ export function useGameSync({
 
       const result = await response.json();
       setCursorColor(result.cursorColor);
+      if (result.config?.tickRate) setTickRate(result.config.tickRate);
       console.log('✅ Joined game room:', result);
       
       // Reset reconnect attempts on successful join
       reconnectAttemptsRef.current = 0;
       
+      return result.token ?? null;
     } catch (error) {
       console.error('❌ Failed to join game:', error);
       setConnectionStatus('error');
@@ -168,62 +235,197 @@ export function useGameSync({
     if (!enabled || !isMounted || !effectiveUserId || wsRef.current?.readyState === WebSocket.OPEN) return;
 
     try {
-      // First join the game
-      await joinGame();
+      const ws = getRealtimeConnection(providedUserId || null).open(`gamesync:${roomKey}:${effectiveUserId}`, 'gamesync', async () => {
+        // First join the game - the response carries a short-lived join token
+        const token = await joinGame();
+        if (!token) {
+          throw new Error('GameSync join did not return a token');
+        }
 
-      // Then connect WebSocket
-      const protocol = window.location.protocol === 'https:' ? 'wss:' : 'ws:';
-      const wsUrl = `${protocol}//${window.location.host}/__gamesync/ws?key=${encodeURIComponent(roomKey)}`;
-      
-      console.log('🎮 Connecting GameSync WebSocket:', wsUrl);
-      
-      const ws = new WebSocket(wsUrl);
+        // Then open the channel
+        console.log('🎮 Opening GameSync channel for:', roomKey);
+        return { key: roomKey, token };
+      });
       wsRef.current = ws;
+      
+      const dispatchRoomEvent = (event: RoomEventMessage) => {
+        for (const handler of eventHandlersRef.current) {
+          try {
+            handler(event);
+          } catch (error) {
+            console.error(`❌ Room event handler failed for "${event.event}":`, error);
+          }
+        }
+      };
 
       ws.onopen = () => {
         console.log('✅ GameSync WebSocket connected');
         setIsConnected(true);
         setConnectionStatus('connected');
         reconnectAttemptsRef.current = 0;
+        lastSeqRef.current = null;
+        binaryCursorsRef.current = false;
+        lastMouseSentAtRef.current = null;
         
-        // Request current state
+        // Negotiate the protocol version, then request current state
         if (ws.readyState === WebSocket.OPEN) {
-          ws.send(JSON.stringify({
+          sendGameMessage(ws, { type: 'hello', versions: [PROTOCOL_VERSION], capabilities: ['binary_cursor'] });
+          sendGameMessage(ws, {
             type: 'request_state',
-            userId: effectiveUserId,
             timestamp: Date.now()
-          }));
+          });
+          collaborativeDocsRef.current?.attach(message => {
+            if (ws.readyState === WebSocket.OPEN) sendGameMessage(ws, message);
+          });
         }
         
         // Start heartbeat
         if (heartbeatRef.current) clearInterval(heartbeatRef.current);
         heartbeatRef.current = setInterval(() => {
           if (ws.readyState === WebSocket.OPEN) {
-            ws.send(JSON.stringify({
+            sendGameMessage(ws, {
               type: 'heartbeat',
-              userId: effectiveUserId,
               timestamp: Date.now()
-            }));
+            });
           }
         }, CLIENT_CONFIG.HEARTBEAT_INTERVAL);
       };
 
       ws.onmessage = (event) => {
+        // Binary frames are batched cursor positions, keyed by cursorId
+        if (event.data instanceof ArrayBuffer) {
+          const batch = decodeCursorBatch(event.data);
+          if (!batch) return;
+          
+          syncServerClock(batch.serverTime);
+          const positions = new Map(batch.entries.map(({ cursorId, position }) => [cursorId, position]));
+          setUsers(current => current.map(user =>
+            positions.has(user.cursorId) ? { ...user, mousePosition: positions.get(user.cursorId)! } : user
+          ));
+          return;
+        }
+        
         try {
-          const data = JSON.parse(event.data);
+          const data = JSON.parse(event.data) as GameServerMessage;
           
-          if (data.type === 'game_state_update' || data.type === 'initial_state') {
-            setUsers(data.users || []);
+          switch (data.type) {
+            case 'tick':
+              syncServerClock(data.serverTime);
+              setTickRate(data.tickRate);
+              break;
+
+            case 'initial_state':
+              setUsers(data.users || []);
+              setChatMessages(data.chat || []);
+              lastSeqRef.current = data.seq;
+              break;
+              
+            case 'chat_message':
+              setChatMessages(current => {
+                const index = current.findIndex(message => message.id === data.message.id);
+                if (index !== -1) {
+                  return current.map(message => message.id === data.message.id ? data.message : message);
+                }
+                return [...current, data.message].slice(-CLIENT_CONFIG.MAX_CHAT_MESSAGES);
+              });
+              break;
+              
+            case 'chat_deleted':
+              setChatMessages(current => current.filter(message => message.id !== data.id));
+              break;
+              
+            case 'user_joined':
+            case 'user_updated':
+            case 'user_left': {
+              const lastSeq = lastSeqRef.current;
+              // Waiting for a snapshot, or a patch the snapshot already covers
+              const fit = checkRosterSeq(lastSeq, data.seq);
+              if (fit === 'skip') break;
+              
+              if (fit === 'gap') {
+                console.log(`🕳️ GameSync gap (last ${lastSeq}, got ${data.seq}), requesting resync`);
+                lastSeqRef.current = null;
+                sendGameMessage(ws, { type: 'request_state', timestamp: Date.now() });
+                break;
+              }
+              
+              lastSeqRef.current = data.seq;
+              setUsers(current => {
+                const next = applyRosterPatch(current, data);
+                if (!binaryCursorsRef.current || data.type !== 'user_updated') return next;
+                
+                // Binary-mode patches only carry anchored cursors - the rest come from cursor batches
+                const previous = current.find(user => user.userId === data.user.userId);
+                return next.map(user =>
+                  user.userId === data.user.userId
+                    ? { ...user, mousePosition: data.user.mousePosition ?? previous?.mousePosition ?? null }
+                    : user
+                );
+              });
+              break;
+            }
+              
+            case 'hello':
+              console.log('🤝 GameSync protocol version:', data.version, data.capabilities);
+              if (data.capabilities.includes('binary_cursor')) {
+                // The server follows up with a snapshot from the binary patch stream
+                binaryCursorsRef.current = true;
+                lastSeqRef.current = null;
+              }
+              break;
+              
+            case 'state_snapshot':
+              sharedStateRef.current?.reset(data.entries);
+              break;
+              
+            case 'state_patch':
+              sharedStateRef.current?.apply(data.entries);
+              break;
+              
+            case 'doc_sync_reply':
+              collaborativeDocsRef.current?.handleSyncReply(data.docId, data.update, data.stateVector);
+              break;
+              
+            case 'doc_update':
+              collaborativeDocsRef.current?.handleUpdate(data.docId, data.update);
+              break;
+              
+            case 'event':
+              dispatchRoomEvent(data);
+              break;
+              
+            case 'error':
+              console.warn(`⚠️ GameSync server rejected a message (${data.code}):`, data.message);
+              break;
           }
         } catch (error) {
           console.error('❌ Failed to parse GameSync message:', error);
         }
       };
 
+      // What this user's other tabs sent over the shared connection and the server won't send back to it
+      ws.onpeermessage = (raw) => {
+        if (typeof raw !== 'string') return;
+        
+        const message = JSON.parse(raw) as GameClientMessage;
+        if (message.type === 'doc_update') {
+          collaborativeDocsRef.current?.handleUpdate(message.docId, message.update);
+        } else if (message.type === 'broadcast' && (!message.to || message.to.includes(effectiveUserId))) {
+          dispatchRoomEvent({
+            type: 'event',
+            event: message.event,
+            payload: message.payload,
+            senderId: effectiveUserId,
+            timestamp: getServerTime()
+          });
+        }
+      };
+
       ws.onclose = () => {
         console.log('🔌 GameSync WebSocket disconnected');
         setIsConnected(false);
         setConnectionStatus('disconnected');
+        collaborativeDocsRef.current?.attach(null);
         
         if (heartbeatRef.current) {
           clearInterval(heartbeatRef.current);
@@ -264,7 +466,7 @@ export function useGameSync({
         }, delay);
       }
     }
-  }, [enabled, joinGame, effectiveUserId, roomKey, isMounted]);
+  }, [enabled, joinGame, syncServerClock, getServerTime, effectiveUserId, providedUserId, roomKey, isMounted]);
 
   // Mouse tracking
   const handleMouseMove = useCallback((event: MouseEvent) => {
@@ -287,24 +489,29 @@ export function useGameSync({
     // Throttle by time
     if (mouseThrottleRef.current) return;
     
+    // Share the position in viewport-independent form (resolved now, while the anchor is under the pointer)
+    const sharedPos = toSharedPosition(event.clientX, event.clientY, event.target);
+    
     mouseThrottleRef.current = setTimeout(() => {
       mouseThrottleRef.current = null;
       
       if (wsRef.current && wsRef.current.readyState === WebSocket.OPEN) {
         try {
-          wsRef.current.send(JSON.stringify({
-            type: 'mouse_move',
-            userId: effectiveUserId,
-            timestamp: Date.now(),
-            data: {
-              x: currentPos.x,
-              y: currentPos.y,
-              viewportWidth: window.innerWidth,
-              viewportHeight: window.innerHeight
-            }
-          }));
+          const now = Date.now();
+          // Anchored positions have no binary encoding
+          if (binaryCursorsRef.current && !sharedPos.anchor) {
+            const dt = lastMouseSentAtRef.current === null ? 0 : now - lastMouseSentAtRef.current;
+            wsRef.current.send(encodeCursorMove(sharedPos.x, sharedPos.y, dt));
+          } else {
+            sendGameMessage(wsRef.current, {
+              type: 'mouse_move',
+              timestamp: now,
+              data: sharedPos
+            });
+          }
           
           lastMousePositionRef.current = currentPos;
+          lastMouseSentAtRef.current = now;
         } catch (error) {
           console.error('❌ Failed to send mouse position:', error);
         }
@@ -313,21 +520,73 @@ export function useGameSync({
   }, [effectiveUserId, throttleDistance, updateRate]);
 
   // Game action functions
-  const sendGameAction = useCallback((action: any) => {
+  const sendGameAction = useCallback((action: GameActionData) => {
     if (!wsRef.current || wsRef.current.readyState !== WebSocket.OPEN || !effectiveUserId) return;
 
     try {
-      wsRef.current.send(JSON.stringify({
+      sendGameMessage(wsRef.current, {
         type: 'game_action',
-        userId: effectiveUserId,
         timestamp: Date.now(),
         data: action
-      }));
+      });
     } catch (error) {
       console.error('❌ Failed to send game action:', error);
     }
   }, [effectiveUserId]);
 
+  const sendChatMessage = useCallback((message: GameClientMessage) => {
+    if (!wsRef.current || wsRef.current.readyState !== WebSocket.OPEN || !effectiveUserId) return;
+
+    try {
+      sendGameMessage(wsRef.current, message);
+    } catch (error) {
+      console.error('❌ Failed to send chat message:', error);
+    }
+  }, [effectiveUserId]);
+
+  const sendChat = useCallback((text: string) => {
+    sendChatMessage({ type: 'chat_send', text });
+  }, [sendChatMessage]);
+
+  const editChat = useCallback((id: string, text: string) => {
+    sendChatMessage({ type: 'chat_edit', id, text });
+  }, [sendChatMessage]);
+
+  const deleteChat = useCallback((id: string) => {
+    sendChatMessage({ type: 'chat_delete', id });
+  }, [sendChatMessage]);
+
+  const sendEvent = useCallback((event: string, payload?: unknown, to?: string[]) => {
+    if (!wsRef.current || wsRef.current.readyState !== WebSocket.OPEN || !effectiveUserId) return;
+
+    try {
+      sendGameMessage(wsRef.current, { type: 'broadcast', event, payload, to });
+    } catch (error) {
+      console.error('❌ Failed to send room event:', error);
+    }
+  }, [effectiveUserId]);
+
+  const onEvent = useCallback((handler: RoomEventHandler) => {
+    eventHandlersRef.current.add(handler);
+    return () => {
+      eventHandlersRef.current.delete(handler);
+    };
+  }, []);
+
+  const sendStateOperation = useCallback((operation: SharedStateOperation) => {
+    if (!wsRef.current || wsRef.current.readyState !== WebSocket.OPEN || !effectiveUserId) return;
+
+    try {
+      sendGameMessage(wsRef.current, {
+        type: 'state_op',
+        timestamp: Date.now(),
+        data: operation
+      });
+    } catch (error) {
+      console.error('❌ Failed to send shared state operation:', error);
+    }
+  }, [effectiveUserId]);
+
   const updateScore = useCallback((score: number) => {
     sendGameAction({ score });
   }, [sendGameAction]);
@@ -415,6 +674,17 @@ export function useGameSync({
     sendGameAction,
     updateScore,
     updateLevel,
-    connectionStatus
+    connectionStatus,
+    getServerTime,
+    tickRate,
+    sharedState: sharedStateRef.current,
+    sendStateOperation,
+    collaborativeDocs: collaborativeDocsRef.current,
+    sendEvent,
+    onEvent,
+    chatMessages,
+    sendChat,
+    editChat,
+    deleteChat
   };
 }
\ No newline at end of file
@@ -2,19 +2,26 @@
 'use client';
 
 import { useEffect, useState, useRef, useCallback } from 'react';
-
-interface PresenceUser {
-  userId: string;
-  username: string;
-  joinedAt: number;
-  lastSeen: number;
-}
+import {
+  PROTOCOL_VERSION,
+  applyRosterPatch,
+  checkRosterSeq,
+  PRESENCE_FLAG_TTL,
+  type PresenceActivity,
+  type PresenceClientMessage,
+  type PresenceServerMessage,
+  type PresenceUser,
+  type SetStatusMessage,
+} from '@/app/shared/realtimeProtocol';
+import { getAnonymousUserId } from '@/app/lib/anonymousIdentity';
+import { getRealtimeConnection, type RealtimeChannel } from '@/app/lib/realtimeConnection';
 
 interface UsePresenceOptions {
   userId?: string;
   username?: string;
   enabled?: boolean;
   roomKey?: string; // Allow different rooms
+  idleTimeout?: number; // ms without input before the user counts as idle
 }
 
 interface UsePresenceReturn {
@@ -24,8 +31,23 @@ interface UsePresenceReturn {
   totalUsers: number;
   currentUserId: string | null;
   currentUsername: string | null;
+  setStatus: (update: PresenceStatusUpdate) => void; // Kept across reconnects
+  setTyping: (typing: boolean) => void; // Call on every keystroke; lapses on its own if never cleared
+  activity: PresenceActivity; // This tab's detected activity
+  serverTimeOffset: number; // Add to Date.now() to compare with the roster's timestamps
 }
 
+// Omitted fields keep their value, null clears the custom text/emoji
+export type PresenceStatusUpdate = Omit<SetStatusMessage, 'type' | 'tab' | 'flags'>;
+
+// Re-send `typing` well before the server lets it lapse
+const TYPING_REFRESH_INTERVAL = PRESENCE_FLAG_TTL / 2;
+
+// Activity detection
+const DEFAULT_IDLE_TIMEOUT = 60000;
+const ACTIVITY_CHECK_INTERVAL = 5000;
+const INPUT_EVENTS = ['pointermove', 'pointerdown', 'keydown', 'wheel', 'scroll', 'touchstart'] as const;
+
 // Generate a stable session ID that persists across refreshes but not across tabs in incognito
 function generateSessionId(): string {
   // Only run in browser environment
@@ -124,19 +146,35 @@ function getOrGenerateUsername(sessionId: string): string {
   return username;
 }
 
+function sendPresenceMessage(ws: RealtimeChannel, message: PresenceClientMessage) {
+  ws.send(JSON.stringify(message));
+}
+
 export function usePresence({
   userId: providedUserId,
   username: providedUsername,
   enabled = true,
-  roomKey = '/default'
+  roomKey = '/default',
+  idleTimeout = DEFAULT_IDLE_TIMEOUT
 }: UsePresenceOptions = {}): UsePresenceReturn {
   const [presence, setPresence] = useState<PresenceUser[]>([]);
+  const [activity, setActivity] = useState<PresenceActivity>('active');
+  const [serverTimeOffset, setServerTimeOffset] = useState(0);
   const [isConnected, setIsConnected] = useState(false);
   const [isMounted, setIsMounted] = useState(false);
-  const wsRef = useRef<WebSocket | null>(null);
+  // A channel on the page's realtime connection, shared with this user's other tabs in the room
+  const wsRef = useRef<RealtimeChannel | null>(null);
   const heartbeatRef = useRef<NodeJS.Timeout | null>(null);
   const reconnectTimeoutRef = useRef<NodeJS.Timeout | null>(null);
   const mountedRef = useRef(true);
+  // Sequence id of the last snapshot/patch applied; null while waiting for a snapshot
+  const lastSeqRef = useRef<number | null>(null);
+  // Status the user picked, replayed whenever the socket (re)connects
+  const statusRef = useRef<PresenceStatusUpdate>({});
+  // When `typing` was last sent as set; null while not typing
+  const typingSentAtRef = useRef<number | null>(null);
+  const activityRef = useRef<PresenceActivity>('active');
+  const lastInputRef = useRef(Date.now());
   
   // Generate stable IDs only after mount (client-side only)
   const [sessionId, setSessionId] = useState<string>('');
@@ -146,11 +184,17 @@ export function usePresence({
 
   // Initialize client-side IDs after mount
   useEffect(() => {
-    if (typeof window !== 'undefined') {
+    if (typeof window === 'undefined') return;
+    let cancelled = false;
+
+    const initialize = async () => {
       const newSessionId = generateSessionId();
       const newTabId = generateTabId();
-      const newEffectiveUserId = providedUserId || `anon_${newSessionId}_${newTabId}`;
+      // Anonymous visitors use the id bound to their cookie - it's the only one the server accepts,
+      // and every tab shares it, so tabs are one person; the tab id only identifies the connection
+      const newEffectiveUserId = providedUserId || await getAnonymousUserId();
       const newEffectiveUsername = providedUsername || getOrGenerateUsername(newSessionId);
+      if (cancelled) return;
       
       setSessionId(newSessionId);
       setTabId(newTabId);
@@ -166,7 +210,15 @@ export function usePresence({
         providedUserId,
         providedUsername
       });
-    }
+    };
+
+    initialize().catch(error => {
+      console.error('❌ Failed to initialize presence identity:', error);
+    });
+
+    return () => {
+      cancelled = true;
+    };
   }, [providedUserId, providedUsername]);
 
   const cleanup = useCallback(() => {
@@ -178,14 +230,19 @@ export function usePresence({
       clearTimeout(reconnectTimeoutRef.current);
       reconnectTimeoutRef.current = null;
     }
-    if (wsRef.current && wsRef.current.readyState === WebSocket.OPEN) {
-      wsRef.current.close();
+    // The channel may live on in the user's other tabs, which shouldn't keep counting this one
+    const ws = wsRef.current;
+    if (ws?.readyState === WebSocket.OPEN && tabId) {
+      sendPresenceMessage(ws, { type: 'tab_closed', tab: tabId });
     }
+    // The channel stays open on the server while another tab or component still uses it
+    ws?.close();
     wsRef.current = null;
-  }, []);
+  }, [tabId]);
 
-  const joinPresence = useCallback(async () => {
-    if (!enabled || !effectiveUserId) return;
+  // Returns the signed join token required by the WebSocket upgrade
+  const joinPresence = useCallback(async (): Promise<string | null> => {
+    if (!enabled || !effectiveUserId) return null;
 
     try {
       const response = await fetch('/__realtime/presence', {
@@ -218,6 +275,7 @@ export function usePresence({
         console.error('❌ Failed to fetch immediate presence:', error);
       }
       
+      return result.token ?? null;
     } catch (error) {
       console.error('❌ Failed to join presence:', error);
       throw error;
@@ -247,41 +305,47 @@ export function usePresence({
     if (!enabled || !isMounted || !effectiveUserId || wsRef.current?.readyState === WebSocket.OPEN) return;
 
     try {
-      // First join presence
-      await joinPresence();
+      // One channel per user and room, shared by their tabs - every tab reports its own activity and typing over it
+      const ws = getRealtimeConnection(providedUserId || null).open(`presence:${roomKey}:${effectiveUserId}`, 'presence', async () => {
+        // First join presence - the response carries a short-lived join token
+        const token = await joinPresence();
+        if (!token) {
+          throw new Error('Presence join did not return a token');
+        }
 
-      // Then connect WebSocket
-      const protocol = window.location.protocol === 'https:' ? 'wss:' : 'ws:';
-      const wsUrl = `${protocol}//${window.location.host}/__realtime?key=${encodeURIComponent(roomKey)}`;
-      
-      console.log('🔌 Connecting WebSocket:', wsUrl);
-      
-      const ws = new WebSocket(wsUrl);
+        // Then open the channel
+        console.log('🔌 Opening presence channel for:', roomKey);
+        return { key: roomKey, token };
+      });
       wsRef.current = ws;
 
       ws.onopen = () => {
         console.log('✅ WebSocket connected');
         setIsConnected(true);
+        lastSeqRef.current = null;
         
-        // Immediately request current presence data
+        // Negotiate the protocol version, then identify - the reply carries the full roster
         if (ws.readyState === WebSocket.OPEN) {
-          const requestMessage = {
-            type: 'request_presence',
-            userId: effectiveUserId
-          };
-          ws.send(JSON.stringify(requestMessage));
-          console.log('📡 Requested initial presence data:', requestMessage);
+          sendPresenceMessage(ws, { type: 'hello', versions: [PROTOCOL_VERSION] });
+          sendPresenceMessage(ws, { type: 'identify', userId: effectiveUserId });
+          console.log('🪪 Identifying presence socket as:', effectiveUserId);
+          
+          typingSentAtRef.current = null;
+          // The server may still hold what we reported before the drop
+          sendPresenceMessage(ws, { type: 'set_activity', tab: tabId, activity: activityRef.current });
+          if (Object.keys(statusRef.current).length > 0) {
+            sendPresenceMessage(ws, { type: 'set_status', tab: tabId, ...statusRef.current });
+          }
         }
         
         // Start heartbeat
         if (heartbeatRef.current) clearInterval(heartbeatRef.current);
         heartbeatRef.current = setInterval(() => {
           if (ws.readyState === WebSocket.OPEN && effectiveUserId) {
-            ws.send(JSON.stringify({
+            sendPresenceMessage(ws, {
               type: 'presence_heartbeat',
-              userId: effectiveUserId,
               timestamp: Date.now()
-            }));
+            });
             console.log('💓 Sent heartbeat for:', effectiveUserId);
           }
         }, 20000); // Send heartbeat every 20 seconds
@@ -289,14 +353,50 @@ export function usePresence({
 
       ws.onmessage = (event) => {
         try {
-          const data = JSON.parse(event.data);
-          if (data.type === 'presence_update') {
-            console.log('📡 Received presence update:', data.data);
-            console.log('🆔 Current effective user ID:', effectiveUserId);
-            console.log('🆔 Current provided user ID:', providedUserId);
-            
-            // Set the full presence array (including yourself)
-            setPresence(data.data || []);
+          const data = JSON.parse(event.data as string) as PresenceServerMessage;
+          switch (data.type) {
+            case 'presence_update':
+              console.log('📡 Received presence update:', data.data);
+              console.log('🆔 Current effective user ID:', effectiveUserId);
+              console.log('🆔 Current provided user ID:', providedUserId);
+              
+              // Set the full presence array (including yourself)
+              setPresence(data.data || []);
+              setServerTimeOffset(data.serverTime - Date.now());
+              lastSeqRef.current = data.seq;
+              break;
+              
+            case 'user_joined':
+            case 'user_updated':
+            case 'user_left': {
+              const lastSeq = lastSeqRef.current;
+              // Waiting for a snapshot, or a patch the snapshot already covers
+              const fit = checkRosterSeq(lastSeq, data.seq);
+              if (fit === 'skip') break;
+              
+              if (fit === 'gap') {
+                console.log(`🕳️ Presence gap (last ${lastSeq}, got ${data.seq}), requesting resync`);
+                lastSeqRef.current = null;
+                sendPresenceMessage(ws, { type: 'request_presence' });
+                break;
+              }
+              
+              lastSeqRef.current = data.seq;
+              setPresence(current => applyRosterPatch(current, data));
+              break;
+            }
+              
+            case 'hello':
+              console.log('🤝 Presence protocol version:', data.version);
+              break;
+              
+            case 'identified':
+              console.log('🪪 Presence socket identified:', data.username);
+              break;
+              
+            case 'error':
+              console.warn(`⚠️ Presence server rejected a message (${data.code}):`, data.message);
+              break;
           }
         } catch (error) {
           console.error('❌ Failed to parse WebSocket message:', error);
@@ -334,7 +434,7 @@ export function usePresence({
         }, 5000);
       }
     }
-  }, [enabled, joinPresence, effectiveUserId, roomKey, isMounted]);
+  }, [enabled, joinPresence, effectiveUserId, providedUserId, roomKey, isMounted, tabId]);
 
   // Connect on mount and when dependencies change
   useEffect(() => {
@@ -375,6 +475,99 @@ export function usePresence({
     return () => document.removeEventListener('visibilitychange', handleVisibilityChange);
   }, [isConnected, enabled, connectWebSocket, isMounted, effectiveUserId]);
 
+  const reportActivity = useCallback((next: PresenceActivity) => {
+    if (activityRef.current === next) return;
+    
+    activityRef.current = next;
+    setActivity(next);
+    console.log('💤 Presence activity:', next);
+    
+    const ws = wsRef.current;
+    if (ws?.readyState === WebSocket.OPEN) {
+      sendPresenceMessage(ws, { type: 'set_activity', tab: tabId, activity: next });
+    }
+  }, [tabId]);
+
+  // Track input, visibility and focus; only transitions are sent
+  useEffect(() => {
+    if (typeof window === 'undefined' || !enabled) return;
+    
+    const evaluate = () => {
+      if (document.hidden) {
+        reportActivity('hidden');
+      } else {
+        reportActivity(Date.now() - lastInputRef.current >= idleTimeout ? 'idle' : 'active');
+      }
+    };
+    
+    // Coming back to the tab or window counts as input
+    const handleInput = () => {
+      lastInputRef.current = Date.now();
+      if (activityRef.current !== 'active') evaluate();
+    };
+    const handleVisibilityChange = () => {
+      if (!document.hidden) lastInputRef.current = Date.now();
+      evaluate();
+    };
+    
+    for (const event of INPUT_EVENTS) {
+      window.addEventListener(event, handleInput, { passive: true });
+    }
+    window.addEventListener('focus', handleInput);
+    document.addEventListener('visibilitychange', handleVisibilityChange);
+    const interval = setInterval(evaluate, ACTIVITY_CHECK_INTERVAL);
+    evaluate();
+    
+    return () => {
+      for (const event of INPUT_EVENTS) {
+        window.removeEventListener(event, handleInput);
+      }
+      window.removeEventListener('focus', handleInput);
+      document.removeEventListener('visibilitychange', handleVisibilityChange);
+      clearInterval(interval);
+    };
+  }, [enabled, idleTimeout, reportActivity]);
+
+  // A tab closing never unmounts, so tell the user's other tabs' connection it's gone
+  useEffect(() => {
+    if (typeof window === 'undefined' || !tabId) return;
+    
+    const handlePageHide = () => {
+      const ws = wsRef.current;
+      if (ws?.readyState === WebSocket.OPEN) {
+        sendPresenceMessage(ws, { type: 'tab_closed', tab: tabId });
+      }
+    };
+    
+    window.addEventListener('pagehide', handlePageHide);
+    return () => window.removeEventListener('pagehide', handlePageHide);
+  }, [tabId]);
+
+  const setStatus = useCallback((update: PresenceStatusUpdate) => {
+    statusRef.current = { ...statusRef.current, ...update };
+    
+    const ws = wsRef.current;
+    if (ws?.readyState === WebSocket.OPEN) {
+      sendPresenceMessage(ws, { type: 'set_status', tab: tabId, ...update });
+    }
+  }, [tabId]);
+
+  const setTyping = useCallback((typing: boolean) => {
+    const ws = wsRef.current;
+    if (ws?.readyState !== WebSocket.OPEN) return;
+    
+    const now = Date.now();
+    const sentAt = typingSentAtRef.current;
+    if (typing) {
+      if (sentAt !== null && now - sentAt < TYPING_REFRESH_INTERVAL) return;
+      typingSentAtRef.current = now;
+    } else {
+      if (sentAt === null) return;
+      typingSentAtRef.current = null;
+    }
+    sendPresenceMessage(ws, { type: 'set_status', tab: tabId, flags: { typing } });
+  }, [tabId]);
+
   // Filter out current user from "other users" list only
   // Keep full presence array for total count
   const otherUsers = presence.filter(user => {
@@ -413,6 +606,10 @@ export function usePresence({
     isConnected: isConnected && isMounted,
     totalUsers: presence.length, // Total count including yourself
     currentUserId: isMounted ? effectiveUserId : null,
-    currentUsername: isMounted ? effectiveUsername : null
+    currentUsername: isMounted ? effectiveUsername : null,
+    setStatus,
+    setTyping,
+    activity,
+    serverTimeOffset
   };
 }
\ No newline at end of file
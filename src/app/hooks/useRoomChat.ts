@@ -0,0 +1,29 @@
+// hooks/useRoomChat.ts
+'use client';
+
+import { createContext, useContext } from 'react';
+import type { ChatMessage } from '@/app/shared/realtimeProtocol';
+
+export interface RoomChatContextValue {
+  messages: ChatMessage[]; // Oldest first
+  currentUserId: string | null;
+  isConnected: boolean;
+  send: (text: string) => void;
+  edit: (id: string, text: string) => void;
+  remove: (id: string) => void;
+}
+
+// Provided by GameSyncClient for the room it's connected to
+export const RoomChatContext = createContext<RoomChatContextValue | null>(null);
+
+/**
+ * The room's chat: recent history plus send/edit/delete (edit and delete only
+ * succeed for your own messages)
+ */
+export function useRoomChat(): RoomChatContextValue {
+  const context = useContext(RoomChatContext);
+  if (!context) {
+    throw new Error('useRoomChat must be used inside GameSyncClient');
+  }
+  return context;
+}
@@ -0,0 +1,57 @@
+// hooks/useSharedState.ts
+'use client';
+
+import { createContext, useCallback, useContext, useMemo, useSyncExternalStore } from 'react';
+import type { SharedStateStore } from '@/app/lib/sharedStateStore';
+import { STATE_PATH_SEPARATOR, type SharedStateOperation } from '@/app/shared/realtimeProtocol';
+
+export interface SharedStateContextValue {
+  store: SharedStateStore;
+  sendOperation: (operation: SharedStateOperation) => void;
+}
+
+// Provided by GameSyncClient for the room it's connected to
+export const SharedStateContext = createContext<SharedStateContextValue | null>(null);
+
+interface UseSharedStateReturn<T> {
+  value: T | undefined;
+  set: (value: unknown, subpath?: string) => void;
+  remove: (subpath?: string) => void;
+  increment: (by?: number, subpath?: string) => void;
+}
+
+/**
+ * Subscribe to the room's shared state at `path` ('/'-separated). Re-renders
+ * only when something in the subtree changes; writes go to the server and come back
+ * with the next tick.
+ */
+export function useSharedState<T = unknown>(path: string): UseSharedStateReturn<T> {
+  const context = useContext(SharedStateContext);
+  if (!context) {
+    throw new Error('useSharedState must be used inside GameSyncClient');
+  }
+
+  const { store, sendOperation } = context;
+  // Only changes in this subtree re-render, not writes elsewhere in the room
+  const getVersion = useCallback(() => store.getVersion(path), [store, path]);
+  const version = useSyncExternalStore(store.subscribe, getVersion, getVersion);
+  const value = useMemo(() => store.get(path) as T | undefined, [store, path, version]);
+
+  const resolve = useCallback((subpath?: string) => {
+    return subpath ? `${path}${STATE_PATH_SEPARATOR}${subpath}` : path;
+  }, [path]);
+
+  const set = useCallback((value: unknown, subpath?: string) => {
+    sendOperation({ op: 'set', path: resolve(subpath), value });
+  }, [sendOperation, resolve]);
+
+  const remove = useCallback((subpath?: string) => {
+    sendOperation({ op: 'delete', path: resolve(subpath) });
+  }, [sendOperation, resolve]);
+
+  const increment = useCallback((by: number = 1, subpath?: string) => {
+    sendOperation({ op: 'increment', path: resolve(subpath), by });
+  }, [sendOperation, resolve]);
+
+  return { value, set, remove, increment };
+}
@@ -0,0 +1,28 @@
+// lib/anonymousIdentity.ts
+
+let anonymousUserId: Promise<string> | null = null;
+
+/**
+ * The anonymous id the worker bound to this browser's cookie. Only this id may be
+ * claimed without a session, so it's fetched once and shared by every hook on the page.
+ */
+export function getAnonymousUserId(): Promise<string> {
+  if (!anonymousUserId) {
+    anonymousUserId = fetch('/__identity/anonymous', { method: 'POST' })
+      .then(async response => {
+        if (!response.ok) {
+          throw new Error(`Anonymous identity request failed: ${response.status}`);
+        }
+        const { userId } = await response.json() as { userId: string };
+        console.log('🆔 Anonymous id:', userId);
+        return userId;
+      })
+      .catch(error => {
+        // Let the next caller try again
+        anonymousUserId = null;
+        throw error;
+      });
+  }
+
+  return anonymousUserId;
+}
@@ -0,0 +1,137 @@
+// lib/collaborativeDocs.ts
+import * as Y from 'yjs';
+import { fromBase64, toBase64, type GameClientMessage } from '@/app/shared/realtimeProtocol';
+
+// Origin for updates applied from the server, so they aren't sent back
+const REMOTE_ORIGIN = Symbol('remote');
+
+interface OpenDoc {
+  doc: Y.Doc;
+  refs: number; // Mounted hooks using the doc; it's only synced while > 0
+  synced: boolean;
+}
+
+/**
+ * The collaborative docs of one gamesync connection. A doc syncs while at
+ * least one hook retains it: after every (re)connect it runs the state-vector
+ * handshake, which also uploads edits made while offline, and from then on
+ * local edits are sent as they happen.
+ */
+export class CollaborativeDocs {
+  private docs: Map<string, OpenDoc> = new Map();
+  private listeners: Set<() => void> = new Set();
+  private send: ((message: GameClientMessage) => void) | null = null;
+
+  /**
+   * Hand over the socket's send function once it's open, or null once it's closed
+   */
+  attach(send: ((message: GameClientMessage) => void) | null) {
+    this.send = send;
+
+    for (const [docId, entry] of this.docs) {
+      entry.synced = false;
+      if (entry.refs > 0) this.requestSync(docId);
+    }
+    this.notify();
+  }
+
+  /**
+   * The local copy of a doc (created empty if needed) - call retain() to sync it
+   */
+  get(docId: string): Y.Doc {
+    return this.getEntry(docId).doc;
+  }
+
+  retain(docId: string) {
+    const entry = this.getEntry(docId);
+    entry.refs++;
+    if (entry.refs === 1) this.requestSync(docId);
+  }
+
+  release(docId: string) {
+    const entry = this.docs.get(docId);
+    if (!entry || entry.refs === 0) return;
+
+    entry.refs--;
+    if (entry.refs > 0) return;
+
+    // Kept locally, so syncing again later only transfers what changed
+    entry.synced = false;
+    this.send?.({ type: 'doc_close', docId });
+    this.notify();
+  }
+
+  isSynced(docId: string): boolean {
+    return this.docs.get(docId)?.synced ?? false;
+  }
+
+  setAwareness(docId: string, state: Record<string, unknown> | null) {
+    if (!this.docs.get(docId)?.synced) return;
+    this.send?.({ type: 'doc_awareness', docId, state });
+  }
+
+  subscribe = (listener: () => void) => {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  };
+
+  /**
+   * Sync step 2 arrived: apply what we were missing, then send what the server is missing
+   */
+  handleSyncReply(docId: string, update: string, stateVector: string) {
+    const entry = this.docs.get(docId);
+    const remoteUpdate = fromBase64(update);
+    const remoteStateVector = fromBase64(stateVector);
+    if (!entry || entry.refs === 0 || !remoteUpdate || !remoteStateVector) return;
+
+    Y.applyUpdate(entry.doc, remoteUpdate, REMOTE_ORIGIN);
+    this.send?.({
+      type: 'doc_update',
+      docId,
+      update: toBase64(Y.encodeStateAsUpdate(entry.doc, remoteStateVector))
+    });
+
+    entry.synced = true;
+    this.notify();
+  }
+
+  handleUpdate(docId: string, update: string) {
+    const entry = this.docs.get(docId);
+    const remoteUpdate = fromBase64(update);
+    if (!entry?.synced || !remoteUpdate) return;
+
+    Y.applyUpdate(entry.doc, remoteUpdate, REMOTE_ORIGIN);
+  }
+
+  private getEntry(docId: string): OpenDoc {
+    let entry = this.docs.get(docId);
+    if (!entry) {
+      const doc = new Y.Doc();
+      entry = { doc, refs: 0, synced: false };
+      this.docs.set(docId, entry);
+
+      // Edits before the handshake completes go out with its diff instead
+      const current = entry;
+      doc.on('update', (update: Uint8Array, origin: unknown) => {
+        if (origin === REMOTE_ORIGIN || !current.synced) return;
+        this.send?.({ type: 'doc_update', docId, update: toBase64(update) });
+      });
+    }
+    return entry;
+  }
+
+  private requestSync(docId: string) {
+    const entry = this.docs.get(docId);
+    if (!entry || !this.send) return;
+
+    this.send({ type: 'doc_sync', docId, stateVector: toBase64(Y.encodeStateVector(entry.doc)) });
+  }
+
+  private notify() {
+    for (const listener of this.listeners) {
+      listener();
+    }
+  }
+}
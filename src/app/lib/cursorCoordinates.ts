@@ -0,0 +1,56 @@
+// lib/cursorCoordinates.ts
+import type { MouseMoveData, MousePosition } from '@/app/shared/realtimeProtocol';
+
+// Elements marked with this attribute are cursor anchors: a cursor over one is
+// shared relative to the element, so it lands on the same content for everyone
+export const PRESENCE_ANCHOR_ATTRIBUTE = 'data-presence-anchor';
+
+function clampUnit(value: number): number {
+  return Math.min(Math.max(value, 0), 1);
+}
+
+/**
+ * Convert a pointer position (viewport pixels) to the shared, viewport-independent form
+ */
+export function toSharedPosition(clientX: number, clientY: number, target: EventTarget | null): MouseMoveData {
+  const anchorElement = target instanceof Element ? target.closest(`[${PRESENCE_ANCHOR_ATTRIBUTE}]`) : null;
+  const anchor = anchorElement?.getAttribute(PRESENCE_ANCHOR_ATTRIBUTE);
+
+  if (anchorElement && anchor) {
+    const rect = anchorElement.getBoundingClientRect();
+    return {
+      x: rect.width > 0 ? clampUnit((clientX - rect.left) / rect.width) : 0,
+      y: rect.height > 0 ? clampUnit((clientY - rect.top) / rect.height) : 0,
+      anchor
+    };
+  }
+
+  const { scrollWidth, scrollHeight } = document.documentElement;
+  return {
+    x: clampUnit((clientX + window.scrollX) / scrollWidth),
+    y: clampUnit((clientY + window.scrollY) / scrollHeight)
+  };
+}
+
+/**
+ * Convert a shared position back to local viewport pixels, or null if its
+ * anchor element isn't on this page
+ */
+export function toViewportPosition(position: MousePosition): { x: number; y: number } | null {
+  if (position.anchor) {
+    const anchorElement = document.querySelector(`[${PRESENCE_ANCHOR_ATTRIBUTE}="${CSS.escape(position.anchor)}"]`);
+    if (!anchorElement) return null;
+
+    const rect = anchorElement.getBoundingClientRect();
+    return {
+      x: rect.left + position.x * rect.width,
+      y: rect.top + position.y * rect.height
+    };
+  }
+
+  const { scrollWidth, scrollHeight } = document.documentElement;
+  return {
+    x: position.x * scrollWidth - window.scrollX,
+    y: position.y * scrollHeight - window.scrollY
+  };
+}
@@ -0,0 +1,255 @@
+// lib/realtimeConnection.ts
+
+import { SharedSocket, type SocketData } from '@/app/lib/sharedSocket';
+import {
+  MUX_CONTROL_CHANNEL,
+  decodeMuxFrame,
+  encodeMuxFrame,
+  type MuxChannelKind,
+  type MuxClientMessage,
+  type MuxServerMessage,
+} from '@/app/shared/realtimeProtocol';
+
+const MUX_PATH = '/__realtime/mux';
+
+interface ChannelEntry {
+  connect: () => Promise<Record<string, string>>;
+  attempt: number; // Bumped on every (re)open, so a stale connect() is ignored
+  requested: boolean; // `open` went out on the current connection
+}
+
+/**
+ * One channel on the page's realtime connection. Mirrors the part of the
+ * WebSocket interface the realtime hooks use, like SharedSocket.
+ */
+export class RealtimeChannel {
+  readyState: number = WebSocket.CONNECTING;
+  onopen: (() => void) | null = null;
+  onmessage: ((event: { data: SocketData }) => void) | null = null;
+  onclose: ((event: { code: number; reason: string }) => void) | null = null;
+  onerror: ((error: Event) => void) | null = null;
+  // Frames sent with `echo` by another tab or component on this channel
+  onpeermessage: ((data: SocketData) => void) | null = null;
+
+  constructor(private connection: RealtimeConnection, readonly name: string, readonly kind: MuxChannelKind) {}
+
+  send(data: SocketData, echo = false) {
+    if (this.readyState !== WebSocket.OPEN) return;
+    this.connection.send(this, data, echo);
+  }
+
+  close() {
+    if (this.readyState === WebSocket.CLOSED) return;
+
+    this.readyState = WebSocket.CLOSED;
+    this.connection.close(this);
+    setTimeout(() => this.onclose?.({ code: 1000, reason: 'Closed' }), 0);
+  }
+}
+
+/**
+ * The page's realtime socket for one session user. Every channel the page
+ * opens (a room's presence, its gamesync, the framework's renders) rides on
+ * it, and the worker routes each to its Durable Object. The socket itself is
+ * a SharedSocket, so tabs signed in as the same user share it too.
+ *
+ * Use `getRealtimeConnection` rather than constructing one.
+ */
+export class RealtimeConnection {
+  private socket: SharedSocket | null = null;
+  private channels = new Map<RealtimeChannel, ChannelEntry>();
+
+  constructor(private sessionUserId: string | null) {}
+
+  /**
+   * Open a channel, connecting the page first if needed.
+   *
+   * @param name Openers of the same name share the channel, so it should cover everything it's bound to (kind, room, user)
+   * @param connect Resolves the query params of the channel's upgrade (key, token, ...); called on every (re)open
+   */
+  open(name: string, kind: MuxChannelKind, connect: () => Promise<Record<string, string>>): RealtimeChannel {
+    const channel = new RealtimeChannel(this, name, kind);
+    const entry: ChannelEntry = { connect, attempt: 0, requested: false };
+    this.channels.set(channel, entry);
+
+    const socket = this.getSocket();
+    if (socket.readyState === WebSocket.OPEN) this.start(channel, entry);
+    return channel;
+  }
+
+  /**
+   * Called by RealtimeChannel.send
+   */
+  send(channel: RealtimeChannel, data: SocketData, echo: boolean) {
+    this.socket?.send(encodeMuxFrame(channel.name, data), echo);
+    if (!echo) return;
+
+    // Other tabs get the echo from the SharedSocket, other openers in this one from here
+    for (const other of this.channels.keys()) {
+      if (other !== channel && other.name === channel.name && other.readyState === WebSocket.OPEN) {
+        other.onpeermessage?.(data);
+      }
+    }
+  }
+
+  /**
+   * Called by RealtimeChannel.close
+   */
+  close(channel: RealtimeChannel) {
+    const entry = this.channels.get(channel);
+    if (!entry) return;
+
+    this.channels.delete(channel);
+    // The server counts opens, so this only closes it for good once every opener has
+    if (entry.requested) this.sendControl({ type: 'close', channel: channel.name });
+
+    if (this.channels.size === 0 && this.socket) {
+      console.log('🔌 Last realtime channel closed, disconnecting');
+      this.socket.close();
+      this.socket = null;
+    }
+  }
+
+  private getSocket(): SharedSocket {
+    if (this.socket && this.socket.readyState !== WebSocket.CLOSED) return this.socket;
+
+    // The worker authenticates the socket once, on upgrade, so it's only shared by tabs of the same
+    // session - a tab that signs in or out moves to another socket instead of inheriting the old identity
+    const name = this.sessionUserId ? `realtime:user:${this.sessionUserId}` : 'realtime:anonymous';
+    const socket = new SharedSocket(name, async () => {
+      const protocol = window.location.protocol === 'https:' ? 'wss:' : 'ws:';
+      return `${protocol}//${window.location.host}${MUX_PATH}`;
+    });
+    this.socket = socket;
+
+    // Also after another tab takes the connection over - every channel has to be opened again there
+    socket.onopen = () => {
+      console.log('✅ Realtime connection open');
+      for (const [channel, entry] of this.channels) {
+        channel.readyState = WebSocket.CONNECTING;
+        this.start(channel, entry);
+      }
+    };
+
+    socket.onmessage = ({ data }) => this.handleFrame(data, false);
+    socket.onpeermessage = (data) => this.handleFrame(data, true);
+
+    socket.onerror = (error) => {
+      for (const channel of this.channels.keys()) {
+        channel.onerror?.(error);
+      }
+    };
+
+    socket.onclose = ({ code, reason }) => {
+      if (this.socket !== socket) return;
+
+      console.log('🔌 Realtime connection closed');
+      this.socket = null;
+      for (const channel of [...this.channels.keys()]) {
+        this.drop(channel, code, reason);
+      }
+    };
+
+    return socket;
+  }
+
+  private async start(channel: RealtimeChannel, entry: ChannelEntry) {
+    const attempt = ++entry.attempt;
+    entry.requested = false;
+
+    let params: Record<string, string>;
+    try {
+      params = await entry.connect();
+    } catch (error) {
+      console.error(`❌ Failed to open realtime channel ${channel.name}:`, error);
+      if (entry.attempt === attempt) this.drop(channel, 1006, 'Connect failed');
+      return;
+    }
+
+    // Closed, or reopened on a newer connection, in the meantime
+    if (this.channels.get(channel) !== entry || entry.attempt !== attempt || this.socket?.readyState !== WebSocket.OPEN) {
+      return;
+    }
+
+    entry.requested = true;
+    this.sendControl({ type: 'open', channel: channel.name, kind: channel.kind, params });
+  }
+
+  private handleFrame(data: SocketData, fromPeer: boolean) {
+    const frame = decodeMuxFrame(data);
+    if (!frame) return;
+
+    if (frame.channel === MUX_CONTROL_CHANNEL) {
+      if (!fromPeer && typeof frame.data === 'string') {
+        this.handleControl(JSON.parse(frame.data) as MuxServerMessage);
+      }
+      return;
+    }
+
+    for (const channel of this.channels.keys()) {
+      if (channel.name !== frame.channel || channel.readyState !== WebSocket.OPEN) continue;
+
+      if (fromPeer) {
+        channel.onpeermessage?.(frame.data);
+      } else {
+        channel.onmessage?.({ data: frame.data });
+      }
+    }
+  }
+
+  private handleControl(message: MuxServerMessage) {
+    switch (message.type) {
+      case 'opened':
+        for (const [channel, entry] of this.channels) {
+          if (channel.name === message.channel && entry.requested && channel.readyState === WebSocket.CONNECTING) {
+            channel.readyState = WebSocket.OPEN;
+            channel.onopen?.();
+          }
+        }
+        return;
+
+      case 'closed':
+        // Openers still resolving their params weren't part of it - their `open` starts it afresh
+        for (const [channel, entry] of [...this.channels]) {
+          if (channel.name === message.channel && entry.requested) {
+            entry.requested = false;
+            this.drop(channel, message.code, message.reason);
+          }
+        }
+        return;
+
+      case 'error':
+        console.warn('⚠️ Realtime connection error:', message.message);
+        return;
+    }
+  }
+
+  /**
+   * The channel ended without its opener closing it
+   */
+  private drop(channel: RealtimeChannel, code: number, reason: string) {
+    if (!this.channels.has(channel)) return;
+
+    this.close(channel);
+    channel.readyState = WebSocket.CLOSED;
+    channel.onclose?.({ code, reason });
+  }
+
+  private sendControl(message: MuxClientMessage) {
+    this.socket?.send(encodeMuxFrame(MUX_CONTROL_CHANNEL, JSON.stringify(message)));
+  }
+}
+
+const connections = new Map<string | null, RealtimeConnection>();
+
+/**
+ * The page's realtime connection for the session user (null when signed out)
+ */
+export function getRealtimeConnection(sessionUserId: string | null): RealtimeConnection {
+  let connection = connections.get(sessionUserId);
+  if (!connection) {
+    connection = new RealtimeConnection(sessionUserId);
+    connections.set(sessionUserId, connection);
+  }
+  return connection;
+}
@@ -0,0 +1,151 @@
+// lib/realtimeTransport.ts
+
+import { fetchTransport, type Transport } from 'rwsdk/client';
+import { getRealtimeConnection, type RealtimeChannel } from '@/app/lib/realtimeConnection';
+import type { SocketData } from '@/app/lib/sharedSocket';
+
+// rwsdk's realtime frames: [type][36-byte stream id][payload]
+const MESSAGE_TYPE = {
+  RSC_START: 0,
+  RSC_CHUNK: 1,
+  RSC_END: 2,
+  ACTION_REQUEST: 3,
+  ACTION_ERROR: 5,
+  ACTION_CHUNK: 6,
+  ACTION_END: 7,
+} as const;
+
+const STREAM_ID_LENGTH = 36;
+const RECONNECT_DELAY = 5000; // Same as rwsdk's own transport
+
+interface PendingStream {
+  controller: ReadableStreamDefaultController<Uint8Array>;
+  chunk: number;
+  end: number;
+}
+
+/**
+ * rwsdk's realtime transport, carried on a `framework` channel of the page's
+ * realtime connection instead of a socket of its own. Re-renders pushed by the
+ * room come in on it, and server actions go out on it (over fetch while it's
+ * not open).
+ */
+export function multiplexedTransport({ key, sessionUserId }: { key: string; sessionUserId: string | null }): Transport {
+  return (transportContext) => {
+    const clientId = crypto.randomUUID();
+    const encoder = new TextEncoder();
+    const decoder = new TextDecoder();
+    const streams = new Map<string, PendingStream>();
+    const fetchCallServer = fetchTransport(transportContext);
+    let channel: RealtimeChannel | null = null;
+
+    /**
+     * The chunks sent under `id`, until its end frame
+     */
+    const receive = (id: string, chunk: number, end: number) => new ReadableStream<Uint8Array>({
+      start(controller) {
+        streams.set(id, { controller, chunk, end });
+      },
+    });
+
+    const callServer = async (id: string | null, args: unknown[] | null) => {
+      const current = channel;
+      if (current?.readyState !== WebSocket.OPEN) {
+        return fetchCallServer(id, args);
+      }
+
+      const { createFromReadableStream, encodeReply } = await import('react-server-dom-webpack/client.browser');
+      const requestId = crypto.randomUUID();
+      const body = encoder.encode(JSON.stringify({
+        id,
+        args: args != null ? await encodeReply(args) : null,
+        requestId,
+      }));
+
+      const message = new Uint8Array(1 + body.length);
+      message[0] = MESSAGE_TYPE.ACTION_REQUEST;
+      message.set(body, 1);
+
+      const stream = receive(requestId, MESSAGE_TYPE.ACTION_CHUNK, MESSAGE_TYPE.ACTION_END);
+      current.send(message.buffer);
+
+      const rscPayload = createFromReadableStream(stream, { callServer });
+      transportContext.setRscPayload(rscPayload);
+      return (await rscPayload).actionResult;
+    };
+
+    /**
+     * Another client's action re-rendered the page
+     */
+    const render = async (id: string) => {
+      // Registered before the import, so chunks arriving meanwhile are kept
+      const stream = receive(id, MESSAGE_TYPE.RSC_CHUNK, MESSAGE_TYPE.RSC_END);
+      const { createFromReadableStream } = await import('react-server-dom-webpack/client.browser');
+      transportContext.setRscPayload(createFromReadableStream(stream, { callServer }));
+    };
+
+    const handleFrame = (data: SocketData) => {
+      if (typeof data === 'string') return;
+
+      const frame = new Uint8Array(data);
+      const type = frame[0];
+      const id = decoder.decode(frame.slice(1, 1 + STREAM_ID_LENGTH));
+
+      if (type === MESSAGE_TYPE.RSC_START) {
+        render(id).catch(error => console.error('❌ Failed to apply realtime render:', error));
+        return;
+      }
+
+      const pending = streams.get(id);
+      if (!pending) return;
+
+      const payload = frame.slice(1 + STREAM_ID_LENGTH);
+      if (type === pending.chunk) {
+        pending.controller.enqueue(payload);
+      } else if (type === pending.end) {
+        streams.delete(id);
+        pending.controller.close();
+      } else if (type === MESSAGE_TYPE.ACTION_ERROR) {
+        streams.delete(id);
+        pending.controller.error(new Error(parseActionError(decoder.decode(payload))));
+      }
+    };
+
+    const connect = () => {
+      // One channel per client, so tabs sharing the connection only get their own renders
+      const opened = getRealtimeConnection(sessionUserId).open(`framework:${key}:${clientId}`, 'framework', async () => ({
+        key,
+        url: window.location.href,
+        clientId,
+      }));
+
+      opened.onmessage = ({ data }) => handleFrame(data);
+      opened.onclose = () => {
+        if (channel !== opened) return;
+
+        channel = null;
+        // Whatever was in flight won't finish on this channel
+        for (const pending of streams.values()) {
+          pending.controller.error(new Error('Realtime channel closed'));
+        }
+        streams.clear();
+
+        console.warn(`🔌 Framework channel closed, reconnecting in ${RECONNECT_DELAY}ms`);
+        setTimeout(connect, RECONNECT_DELAY);
+      };
+      channel = opened;
+    };
+
+    connect();
+    return callServer;
+  };
+}
+
+function parseActionError(raw: string): string {
+  try {
+    const { error } = JSON.parse(raw) as { error?: string };
+    return error || 'Unknown error';
+  } catch {
+    return 'Unknown error';
+  }
+}
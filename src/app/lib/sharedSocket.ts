@@ -0,0 +1,193 @@
+// lib/sharedSocket.ts
+
+export type SocketData = string | ArrayBuffer;
+
+// Between the tabs sharing one connection
+type ChannelMessage =
+  | { type: 'sync' } // A tab that just opened, asking the leader for the socket's state
+  | { type: 'state'; open: boolean }
+  | { type: 'send'; data: SocketData; relay: boolean; echo: boolean } // relay: the leader forwards it to the server
+  | { type: 'message'; data: SocketData } // From the server
+  | { type: 'closed'; code: number; reason: string }; // The server connection dropped
+
+/**
+ * A WebSocket shared by every tab that opens one under the same name. The tab
+ * holding the name's Web Lock owns the real socket and relays frames to and
+ * from the others over a BroadcastChannel. The other tabs queue for the lock,
+ * so when the leading tab goes away the next one reconnects and everyone
+ * carries on through it - they just see `onopen` again. Where either API is
+ * missing, every tab connects on its own.
+ *
+ * Mirrors the part of the WebSocket interface the realtime hooks use.
+ */
+export class SharedSocket {
+  readyState: number = WebSocket.CONNECTING;
+  onopen: (() => void) | null = null;
+  onmessage: ((event: { data: SocketData }) => void) | null = null;
+  onclose: ((event: { code: number; reason: string }) => void) | null = null;
+  onerror: ((error: Event) => void) | null = null;
+  // Frames another tab sent with `echo` - the server doesn't send those back to the connection they came from
+  onpeermessage: ((data: SocketData) => void) | null = null;
+
+  private socket: WebSocket | null = null; // Only while this tab leads
+  private leading = false;
+  private channel: BroadcastChannel | null = null;
+  private queued = new AbortController();
+  private releaseLock: (() => void) | null = null;
+
+  /**
+   * @param name Tabs using the same name share a connection, so it should cover everything the socket is bound to (room, user)
+   * @param connect Resolves the URL to connect to; only called in the tab that leads, whenever it takes over
+   */
+  constructor(name: string, private connect: () => Promise<string>) {
+    if (typeof BroadcastChannel === 'undefined' || !('locks' in navigator)) {
+      this.lead();
+      return;
+    }
+
+    const key = `shared-socket:${name}`;
+    this.channel = new BroadcastChannel(key);
+    this.channel.onmessage = (event: MessageEvent<ChannelMessage>) => this.handleChannelMessage(event.data);
+
+    navigator.locks.request(key, { signal: this.queued.signal }, () => {
+      if (this.readyState === WebSocket.CLOSED) return;
+      // Held until this socket closes or the tab goes away
+      return new Promise<void>(resolve => {
+        this.releaseLock = resolve;
+        this.lead();
+      });
+    }).catch(() => {
+      // Closed while still queued
+    });
+
+    // If another tab already leads, it answers with the socket's state
+    this.post({ type: 'sync' });
+  }
+
+  /**
+   * Send a frame to the server. With `echo`, the other tabs sharing the
+   * connection get it too, through `onpeermessage`.
+   */
+  send(data: SocketData, echo = false) {
+    if (this.readyState !== WebSocket.OPEN) return;
+
+    if (this.leading) {
+      this.socket?.send(data);
+      if (echo) this.post({ type: 'send', data, relay: false, echo });
+    } else {
+      this.post({ type: 'send', data, relay: true, echo });
+    }
+  }
+
+  close() {
+    if (this.readyState === WebSocket.CLOSED) return;
+
+    // The next tab in line takes over; the others wait for it rather than closing
+    if (this.leading) this.post({ type: 'state', open: false });
+    this.teardown();
+    setTimeout(() => this.onclose?.({ code: 1000, reason: 'Closed' }), 0);
+  }
+
+  private async lead() {
+    this.leading = true;
+    this.readyState = WebSocket.CONNECTING;
+    this.post({ type: 'state', open: false });
+
+    let url: string;
+    try {
+      url = await this.connect();
+    } catch (error) {
+      console.error('❌ Shared socket failed to connect:', error);
+      this.drop(1006, 'Connect failed');
+      return;
+    }
+    if (this.readyState === WebSocket.CLOSED) return;
+
+    const socket = new WebSocket(url);
+    socket.binaryType = 'arraybuffer';
+    this.socket = socket;
+
+    socket.onopen = () => {
+      this.post({ type: 'state', open: true });
+      this.markOpen();
+    };
+    socket.onmessage = (event: MessageEvent<SocketData>) => {
+      this.post({ type: 'message', data: event.data });
+      this.onmessage?.({ data: event.data });
+    };
+    socket.onerror = (error) => this.onerror?.(error);
+    socket.onclose = (event) => this.drop(event.code, event.reason);
+  }
+
+  private handleChannelMessage(message: ChannelMessage) {
+    switch (message.type) {
+      case 'sync':
+        if (this.leading) this.post({ type: 'state', open: this.socket?.readyState === WebSocket.OPEN });
+        return;
+
+      case 'state':
+        if (this.leading) return;
+        if (message.open) {
+          this.markOpen();
+        } else if (this.readyState === WebSocket.OPEN) {
+          this.readyState = WebSocket.CONNECTING; // The leader is reconnecting
+        }
+        return;
+
+      case 'send':
+        if (message.relay && this.leading && this.socket?.readyState === WebSocket.OPEN) {
+          this.socket.send(message.data);
+        }
+        if (message.echo && this.readyState === WebSocket.OPEN) this.onpeermessage?.(message.data);
+        return;
+
+      case 'message':
+        if (!this.leading && this.readyState === WebSocket.OPEN) this.onmessage?.({ data: message.data });
+        return;
+
+      case 'closed':
+        if (this.leading) return;
+        this.teardown();
+        this.onclose?.({ code: message.code, reason: message.reason });
+        return;
+    }
+  }
+
+  private markOpen() {
+    if (this.readyState !== WebSocket.CONNECTING) return;
+    this.readyState = WebSocket.OPEN;
+    this.onopen?.();
+  }
+
+  /**
+   * The server connection dropped: every sharing tab closes, and their hooks reconnect as usual
+   */
+  private drop(code: number, reason: string) {
+    if (this.readyState === WebSocket.CLOSED) return;
+
+    this.post({ type: 'closed', code, reason });
+    this.teardown();
+    this.onclose?.({ code, reason });
+  }
+
+  private teardown() {
+    this.readyState = WebSocket.CLOSED;
+    this.leading = false;
+
+    if (this.socket) {
+      this.socket.onopen = this.socket.onmessage = this.socket.onerror = this.socket.onclose = null;
+      this.socket.close();
+      this.socket = null;
+    }
+
+    this.queued.abort();
+    this.releaseLock?.();
+    this.releaseLock = null;
+    this.channel?.close();
+    this.channel = null;
+  }
+
+  private post(message: ChannelMessage) {
+    this.channel?.postMessage(message);
+  }
+}
@@ -0,0 +1,79 @@
+import { describe, expect, it } from "vitest";
+import { SharedStateStore } from "./sharedStateStore";
+
+describe("SharedStateStore", () => {
+  it("keeps the later write when patches arrive out of order", () => {
+    const store = new SharedStateStore();
+
+    store.apply([{ path: 'score', value: 2, updatedAt: 20 }]);
+    store.apply([{ path: 'score', value: 1, updatedAt: 10 }]);
+
+    expect(store.get('score')).toBe(2);
+  });
+
+  it("lets a late deletion lose against a newer write", () => {
+    const store = new SharedStateStore();
+
+    store.reset([{ path: 'score', value: 2, updatedAt: 20 }]);
+    store.apply([{ path: 'score', value: null, updatedAt: 10, deleted: true }]);
+    expect(store.get('score')).toBe(2);
+
+    store.apply([{ path: 'score', value: null, updatedAt: 30, deleted: true }]);
+    expect(store.get('score')).toBeUndefined();
+  });
+
+  it("builds a subtree from the entries below a path", () => {
+    const store = new SharedStateStore();
+
+    store.reset([
+      { path: 'board/cells/1', value: 'x', updatedAt: 1 },
+      { path: 'board/cells/2', value: 'o', updatedAt: 1 },
+      { path: 'score', value: 3, updatedAt: 1 },
+    ]);
+
+    expect(store.get('board')).toEqual({ cells: { 1: 'x', 2: 'o' } });
+    expect(store.get('')).toEqual({ board: { cells: { 1: 'x', 2: 'o' } }, score: 3 });
+    expect(store.get('missing')).toBeUndefined();
+  });
+
+  it("only moves a path's version when its subtree changes", () => {
+    const store = new SharedStateStore();
+    store.reset([]);
+    const board = store.getVersion('board');
+    const score = store.getVersion('score');
+    const root = store.getVersion('');
+
+    store.apply([{ path: 'board/cells/1', value: 'x', updatedAt: 1 }]);
+
+    expect(store.getVersion('board')).not.toBe(board);
+    expect(store.getVersion('')).not.toBe(root);
+    expect(store.getVersion('score')).toBe(score);
+  });
+
+  it("moves a path's version when an entry above it replaces the subtree", () => {
+    const store = new SharedStateStore();
+    store.reset([{ path: 'board/cells/1', value: 'x', updatedAt: 1 }]);
+    const cell = store.getVersion('board/cells/1');
+    const sibling = store.getVersion('players');
+
+    store.apply([
+      { path: 'board/cells/1', value: null, updatedAt: 2, deleted: true },
+      { path: 'board', value: 'reset', updatedAt: 2 },
+    ]);
+
+    expect(store.getVersion('board/cells/1')).not.toBe(cell);
+    expect(store.getVersion('players')).toBe(sibling);
+  });
+
+  it("doesn't notify for patches that change nothing", () => {
+    const store = new SharedStateStore();
+    let notified = 0;
+    store.subscribe(() => notified++);
+    store.reset([{ path: 'score', value: 2, updatedAt: 20 }]);
+
+    store.apply([{ path: 'score', value: 1, updatedAt: 10 }]);
+    store.apply([{ path: 'gone', value: null, updatedAt: 30, deleted: true }]);
+
+    expect(notified).toBe(1);
+  });
+});
@@ -0,0 +1,127 @@
+// lib/sharedStateStore.ts
+import { STATE_PATH_SEPARATOR, type SharedStateEntry } from '@/app/shared/realtimeProtocol';
+
+/**
+ * Client-side copy of a room's shared state. Entries from the server replace
+ * local ones only if they're at least as recent, so a late patch can never
+ * roll back a newer snapshot.
+ */
+export class SharedStateStore {
+  private entries: Map<string, SharedStateEntry> = new Map();
+  private listeners: Set<() => void> = new Set();
+  private version = 0;
+  // Version of the last change at or below each path, and of the last write to each exact path
+  private subtreeVersions: Map<string, number> = new Map();
+  private entryVersions: Map<string, number> = new Map();
+  // A snapshot may change anything
+  private resetVersion = 0;
+
+  subscribe = (listener: () => void) => {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  };
+
+  /**
+   * Changes only when the value at `path` might have: something at or below it
+   * was written, or an entry above it replaced the subtree. Cheap to compare,
+   * unlike the values themselves.
+   */
+  getVersion(path: string): number {
+    let version = Math.max(this.resetVersion, this.subtreeVersions.get(path) ?? 0);
+    for (const ancestor of ancestorsOf(path)) {
+      version = Math.max(version, this.entryVersions.get(ancestor) ?? 0);
+    }
+    return version;
+  }
+
+  /**
+   * Replace everything with a snapshot
+   */
+  reset(entries: SharedStateEntry[]) {
+    this.entries = new Map(entries.map(entry => [entry.path, entry]));
+    this.version++;
+    this.resetVersion = this.version;
+    this.subtreeVersions.clear();
+    this.entryVersions.clear();
+    this.notify();
+  }
+
+  /**
+   * Merge a patch, keeping whichever write is later per path
+   */
+  apply(entries: SharedStateEntry[]) {
+    const changed: string[] = [];
+
+    for (const entry of entries) {
+      const current = this.entries.get(entry.path);
+      if (current && current.updatedAt > entry.updatedAt) continue;
+
+      if (entry.deleted) {
+        if (this.entries.delete(entry.path)) changed.push(entry.path);
+      } else {
+        this.entries.set(entry.path, entry);
+        changed.push(entry.path);
+      }
+    }
+
+    if (changed.length === 0) return;
+
+    this.version++;
+    for (const path of changed) {
+      this.entryVersions.set(path, this.version);
+      this.subtreeVersions.set(path, this.version);
+      for (const ancestor of ancestorsOf(path)) {
+        this.subtreeVersions.set(ancestor, this.version);
+      }
+    }
+    this.notify();
+  }
+
+  /**
+   * Value at `path`: the entry itself, or an object built from the entries
+   * below it. An empty path returns the whole document.
+   */
+  get(path: string): unknown {
+    const exact = this.entries.get(path);
+    if (exact) return exact.value;
+
+    const prefix = path ? path + STATE_PATH_SEPARATOR : '';
+    let tree: Record<string, unknown> | undefined;
+
+    for (const entry of this.entries.values()) {
+      if (!entry.path.startsWith(prefix)) continue;
+
+      tree ??= {};
+      const segments = entry.path.slice(prefix.length).split(STATE_PATH_SEPARATOR);
+      let node = tree;
+      for (const segment of segments.slice(0, -1)) {
+        node = (node[segment] ??= {}) as Record<string, unknown>;
+      }
+      node[segments[segments.length - 1]] = entry.value;
+    }
+
+    return tree;
+  }
+
+  private notify() {
+    for (const listener of this.listeners) {
+      listener();
+    }
+  }
+}
+
+/**
+ * Paths strictly above `path`, including the document root ('')
+ */
+function ancestorsOf(path: string): string[] {
+  if (!path) return [];
+
+  const segments = path.split(STATE_PATH_SEPARATOR);
+  const ancestors = [''];
+  for (let i = 1; i < segments.length; i++) {
+    ancestors.push(segments.slice(0, i).join(STATE_PATH_SEPARATOR));
+  }
+  return ancestors;
+}
@@ -1,6 +1,7 @@
 // Updated Room.tsx
 import PresenceClientSSR from "../components/Presence/PresenceClientSSR";
 import GameSyncClient from "../components/GameSync/GameSyncClient";
+import { RoomChat } from "../components/GameSync/RoomChat";
 import { Login } from "./user/Login";
 import { User } from "@/db";
 
@@ -16,7 +17,6 @@ export default function Room({ currentUser }: RoomProps) {
       enableCursors={true}
       enableTrail={true}
       showStatus={true}
-      cursorSmoothing={0.8}
       trailLength={5}
     >
       <div className="min-h-screen bg-gradient-to-br from-blue-50 to-indigo-100 p-8">
@@ -58,6 +58,12 @@ export default function Room({ currentUser }: RoomProps) {
             <PresenceClientSSR currentUser={currentUser} />
           </div>
 
+          {/* Room Chat */}
+          <div className="bg-white rounded-xl shadow-lg p-6 mb-8">
+            <h2 className="text-xl font-semibold text-gray-800 mb-4">Room Chat</h2>
+            <RoomChat />
+          </div>
+
           {/* Interactive Game Area */}
           <div className="bg-white rounded-xl shadow-lg p-6 mb-8">
             <h2 className="text-xl font-semibold text-gray-800 mb-4">Interactive Area</h2>
@@ -97,7 +103,10 @@ export default function Room({ currentUser }: RoomProps) {
           {/* Interactive Playground */}
           <div className="bg-white rounded-xl shadow-lg p-6 mb-8">
             <h2 className="text-xl font-semibold text-gray-800 mb-4">Interactive Playground</h2>
-            <div className="bg-gray-50 rounded-lg min-h-[400px] relative border-2 border-dashed border-gray-300">
+            <div
+              className="bg-gray-50 rounded-lg min-h-[400px] relative border-2 border-dashed border-gray-300"
+              data-presence-anchor="playground"
+            >
               <div className="absolute inset-4 bg-gradient-to-br from-indigo-100 via-purple-50 to-pink-100 rounded-lg">
                 <div className="p-6 h-full flex flex-col justify-center items-center text-center">
                   <div className="mb-4">
@@ -178,8 +187,8 @@ export default function Room({ currentUser }: RoomProps) {
                   <div className="text-gray-500">5 pixels</div>
                 </div>
                 <div>
-                  <span className="font-medium text-gray-600">Smoothing:</span>
-                  <div className="text-gray-500">0.8 factor</div>
+                  <span className="font-medium text-gray-600">Interpolation:</span>
+                  <div className="text-gray-500">2 server ticks</div>
                 </div>
                 <div>
                   <span className="font-medium text-gray-600">Trail Length:</span>
@@ -0,0 +1,129 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import { env } from "cloudflare:workers";
+import { forwardToRoom, type RoomRequester } from "@/app/rooms/access";
+import { MUX_CONTROL_CHANNEL, decodeMuxFrame, encodeMuxFrame, type MuxChannelKind } from "@/app/shared/realtimeProtocol";
+import { FakeWebSocket, FakeWebSocketPair, UpgradeResponse } from "@/test/workerRuntime";
+import { handleMultiplexedConnection } from "./multiplexer";
+
+vi.mock("@/app/rooms/access", () => ({ forwardToRoom: vi.fn() }));
+
+const requester: RoomRequester = { user: null, anonymousUserId: 'anon_1' };
+
+function muxRequest(origin: string | null) {
+  const headers = new Headers({ Upgrade: 'websocket', Cookie: 'session=abc' });
+  if (origin) headers.set('Origin', origin);
+  return new Request('https://example.com/__realtime/mux', { headers });
+}
+
+function connect(): FakeWebSocket {
+  const response = handleMultiplexedConnection(muxRequest('https://example.com'), requester) as UpgradeResponse;
+
+  expect(response.status).toBe(101);
+  return response.clientSocket!;
+}
+
+async function open(client: FakeWebSocket, channel: string, kind: MuxChannelKind, params: Record<string, string>) {
+  client.send(encodeMuxFrame(MUX_CONTROL_CHANNEL, JSON.stringify({ type: 'open', channel, kind, params })));
+  // Let the upgrade to the Durable Object settle
+  await new Promise(resolve => setTimeout(resolve, 0));
+}
+
+function controlMessages(client: FakeWebSocket) {
+  return client.received
+    .map(frame => decodeMuxFrame(frame))
+    .filter(frame => frame?.channel === MUX_CONTROL_CHANNEL)
+    .map(frame => JSON.parse(frame!.data as string));
+}
+
+/**
+ * Answer the next upgrade with a socket, returning the Durable Object's end of it
+ */
+function acceptUpgrade(): FakeWebSocket {
+  const pair = new FakeWebSocketPair();
+  vi.mocked(forwardToRoom).mockResolvedValueOnce({ status: 101, webSocket: pair[0].asWebSocket() } as unknown as Response);
+  return pair[1];
+}
+
+describe("handleMultiplexedConnection", () => {
+  beforeEach(() => {
+    vi.stubGlobal('WebSocket', FakeWebSocket);
+    vi.stubGlobal('WebSocketPair', FakeWebSocketPair);
+    vi.stubGlobal('Response', UpgradeResponse);
+    Object.assign(env, {
+      REALTIME_DURABLE_OBJECT: { idFromName: (key: string) => key, get: (id: string) => ({ id }) },
+      GAME_SYNC_DURABLE_OBJECT: { idFromName: (key: string) => key, get: (id: string) => ({ id }) },
+    });
+  });
+
+  afterEach(() => {
+    vi.unstubAllGlobals();
+    vi.mocked(forwardToRoom).mockReset();
+  });
+
+  it("refuses upgrades from another origin", () => {
+    expect(handleMultiplexedConnection(muxRequest('https://evil.example'), requester).status).toBe(403);
+    expect(handleMultiplexedConnection(muxRequest(null), requester).status).toBe(403);
+  });
+
+  it("checks room access for framework channels, passing the visitor's cookies on", async () => {
+    const client = connect();
+    const upstream = acceptUpgrade();
+
+    await open(client, 'framework:/room:client-1', 'framework', { key: '/room', url: 'https://example.com/room', clientId: 'client-1' });
+
+    const [durableObject, request, key, who] = vi.mocked(forwardToRoom).mock.calls[0];
+    const url = new URL(request.url);
+    expect(durableObject).toEqual({ id: '/room' });
+    expect(key).toBe('/room');
+    expect(who).toBe(requester);
+    expect(url.pathname).toBe('/__realtime');
+    expect(url.searchParams.get('clientId')).toBe('client-1');
+    expect(url.searchParams.has('channel')).toBe(false);
+    expect(request.headers.get('Origin')).toBe('https://example.com');
+    expect(request.headers.get('Cookie')).toBe('session=abc');
+    expect(controlMessages(client)).toEqual([{ type: 'opened', channel: 'framework:/room:client-1' }]);
+
+    // Binary frames pass through both ways
+    upstream.send(new Uint8Array([0, 1, 2]).buffer);
+    const frame = decodeMuxFrame(client.received.at(-1)!);
+    expect(frame?.channel).toBe('framework:/room:client-1');
+    expect(new Uint8Array(frame?.data as ArrayBuffer)).toEqual(new Uint8Array([0, 1, 2]));
+  });
+
+  it("routes presence channels to the presence socket of the room", async () => {
+    const client = connect();
+    acceptUpgrade();
+
+    await open(client, 'presence:/room:anon_1', 'presence', { key: '/room', token: 't', channel: 'other' });
+
+    const request = vi.mocked(forwardToRoom).mock.calls[0][1];
+    expect(new URL(request.url).searchParams.get('channel')).toBe('presence');
+  });
+
+  it("reports a channel the room refused as closed", async () => {
+    const client = connect();
+    vi.mocked(forwardToRoom).mockResolvedValueOnce(new Response('Sign in to join this room', { status: 403 }));
+
+    await open(client, 'gamesync:/private:anon_1', 'gamesync', { key: '/private', token: 't' });
+
+    expect(controlMessages(client)).toEqual([
+      { type: 'closed', channel: 'gamesync:/private:anon_1', code: 1008, reason: 'Sign in to join this room' },
+    ]);
+  });
+
+  it("keeps a channel open until every opener has closed it", async () => {
+    const client = connect();
+    const upstream = acceptUpgrade();
+    const params = { key: '/room', token: 't' };
+
+    await open(client, 'presence:/room:anon_1', 'presence', params);
+    await open(client, 'presence:/room:anon_1', 'presence', params);
+    expect(forwardToRoom).toHaveBeenCalledTimes(1);
+
+    const close = () => client.send(encodeMuxFrame(MUX_CONTROL_CHANNEL, JSON.stringify({ type: 'close', channel: 'presence:/room:anon_1' })));
+    close();
+    expect(upstream.peer!.readyState).toBe(FakeWebSocket.OPEN);
+    close();
+    expect(upstream.peer!.readyState).toBe(FakeWebSocket.CLOSED);
+  });
+});
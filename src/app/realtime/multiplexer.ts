@@ -0,0 +1,260 @@
+// src/app/realtime/multiplexer.ts
+import { env } from "cloudflare:workers";
+import { forwardToRoom, type RoomRequester } from "@/app/rooms/access";
+import { PRESENCE_SOCKET_TAG } from "@/durableObjects/presenceDurableObject";
+import {
+  MUX_CONTROL_CHANNEL,
+  decodeMuxFrame,
+  encodeMuxFrame,
+  errorFrame,
+  parseMuxClientMessage,
+  type MuxChannelKind,
+  type MuxFrameData,
+  type MuxOpenMessage,
+  type MuxServerMessage,
+} from "@/app/shared/realtimeProtocol";
+
+export const MUX_CONFIG = {
+  MAX_CHANNELS: 16, // Per connection
+} as const;
+
+type RoomDurableObject = { fetch(request: Request): Promise<Response> };
+
+interface ChannelRoute {
+  pathname: string;
+  getDurableObject: (key: string) => RoomDurableObject;
+  query?: Record<string, string>; // Set over whatever the client sent
+}
+
+// Upgrade headers passed on to every channel: the framework checks the Origin,
+// and replays the Cookie on the renders and actions it runs for the client
+const FORWARDED_HEADERS = ['Origin', 'Cookie'];
+
+// Each kind of channel goes where its standalone endpoint goes
+const CHANNEL_ROUTES: Record<MuxChannelKind, ChannelRoute> = {
+  presence: {
+    pathname: '/__realtime',
+    getDurableObject: (key) => env.REALTIME_DURABLE_OBJECT.get(env.REALTIME_DURABLE_OBJECT.idFromName(key)),
+    query: { channel: PRESENCE_SOCKET_TAG },
+  },
+  gamesync: {
+    pathname: '/__gamesync/ws',
+    getDurableObject: (key) => env.GAME_SYNC_DURABLE_OBJECT.get(env.GAME_SYNC_DURABLE_OBJECT.idFromName(key)),
+  },
+  // rwsdk's own realtime protocol - served by the parent of the presence Durable Object.
+  // Its renders carry the room's content, so it gets the same access check as presence.
+  framework: {
+    pathname: '/__realtime',
+    getDurableObject: (key) => env.REALTIME_DURABLE_OBJECT.get(env.REALTIME_DURABLE_OBJECT.idFromName(key)),
+  },
+};
+
+interface UpstreamChannel {
+  kind: MuxChannelKind;
+  refs: number; // Opens not yet matched by a close
+  socket: WebSocket | null; // Set once the Durable Object accepted it
+}
+
+/**
+ * Accept a multiplexed connection. The worker holds both ends: the page's
+ * socket, and one socket per open channel to that channel's Durable Object.
+ */
+export function handleMultiplexedConnection(request: Request, requester: RoomRequester): Response {
+  // Same origin check as rwsdk's realtimeRoute - the socket carries the visitor's cookies
+  if (!isSameOrigin(request)) {
+    return new Response("Invalid origin", { status: 403 });
+  }
+
+  const headers = new Headers({ Upgrade: 'websocket' });
+  for (const name of FORWARDED_HEADERS) {
+    const value = request.headers.get(name);
+    if (value) headers.set(name, value);
+  }
+
+  const { 0: client, 1: server } = new WebSocketPair();
+  server.accept();
+  new ChannelMultiplexer(server, new URL(request.url).origin, headers, requester);
+
+  const { user } = requester;
+  console.log('🔀 Multiplexed connection opened', user ? `for ${user.username}` : '(anonymous)');
+  return new Response(null, { status: 101, webSocket: client });
+}
+
+/**
+ * The Origin header leaves out the port, so only the protocol and hostname are compared
+ */
+function isSameOrigin(request: Request): boolean {
+  const origin = request.headers.get('Origin');
+  if (!origin) return false;
+
+  try {
+    const originUrl = new URL(origin);
+    const url = new URL(request.url);
+    return originUrl.protocol === url.protocol && originUrl.hostname === url.hostname;
+  } catch {
+    return false;
+  }
+}
+
+class ChannelMultiplexer {
+  private channels = new Map<string, UpstreamChannel>();
+
+  constructor(
+    private client: WebSocket,
+    private origin: string,
+    private upgradeHeaders: Headers,
+    private requester: RoomRequester
+  ) {
+    client.addEventListener('message', (event) => this.handleFrame(event.data as MuxFrameData));
+    client.addEventListener('close', () => this.closeAll());
+    client.addEventListener('error', () => this.closeAll());
+  }
+
+  private handleFrame(data: MuxFrameData) {
+    const frame = decodeMuxFrame(data);
+    if (!frame) {
+      this.sendControl(errorFrame('malformed_message', 'Frame is not tagged with a channel'));
+      return;
+    }
+
+    if (frame.channel === MUX_CONTROL_CHANNEL) {
+      this.handleControl(frame.data);
+      return;
+    }
+
+    // Frames racing a close are dropped - the client only sends once a channel is opened
+    this.channels.get(frame.channel)?.socket?.send(frame.data);
+  }
+
+  private handleControl(data: MuxFrameData) {
+    if (typeof data !== 'string') {
+      this.sendControl(errorFrame('malformed_message', 'Control frames must be text'));
+      return;
+    }
+
+    const result = parseMuxClientMessage(data);
+    if (!result.ok) {
+      this.sendControl(result.error);
+      return;
+    }
+
+    const message = result.message;
+    if (message.type === 'open') {
+      this.open(message);
+    } else {
+      this.release(message.channel);
+    }
+  }
+
+  private open(message: MuxOpenMessage) {
+    const existing = this.channels.get(message.channel);
+    if (existing) {
+      existing.refs++;
+      if (existing.socket) this.sendControl({ type: 'opened', channel: message.channel });
+      return;
+    }
+
+    if (this.channels.size >= MUX_CONFIG.MAX_CHANNELS) {
+      this.sendControl({
+        type: 'closed',
+        channel: message.channel,
+        code: 1008,
+        reason: `At most ${MUX_CONFIG.MAX_CHANNELS} channels per connection`
+      });
+      return;
+    }
+
+    const channel: UpstreamChannel = { kind: message.kind, refs: 1, socket: null };
+    this.channels.set(message.channel, channel);
+    this.connect(message.channel, channel, message.params).catch(error => {
+      console.error(`❌ Failed to open ${channel.kind} channel ${message.channel}:`, error);
+      this.drop(message.channel, channel, 1011, 'Failed to connect');
+    });
+  }
+
+  /**
+   * Upgrade to the channel's Durable Object the same way its standalone endpoint does
+   */
+  private async connect(name: string, channel: UpstreamChannel, params: Record<string, string>) {
+    const route = CHANNEL_ROUTES[channel.kind];
+    const url = new URL(route.pathname, this.origin);
+    for (const [param, value] of Object.entries({ ...params, ...route.query })) {
+      url.searchParams.set(param, value);
+    }
+
+    const key = url.searchParams.get('key') || '/default';
+    const request = new Request(url.toString(), { headers: this.upgradeHeaders });
+    const response = await forwardToRoom(route.getDurableObject(key), request, key, this.requester);
+
+    const socket = response.webSocket;
+    if (!socket) {
+      this.drop(name, channel, 1008, (await response.text()) || `Upgrade failed with ${response.status}`);
+      return;
+    }
+
+    socket.accept();
+
+    // Closed by every opener (or the connection went away) while connecting
+    if (this.channels.get(name) !== channel) {
+      closeQuietly(socket);
+      return;
+    }
+
+    channel.socket = socket;
+    socket.addEventListener('message', (event) => this.send(name, event.data as MuxFrameData));
+    socket.addEventListener('close', (event) => this.drop(name, channel, event.code, event.reason));
+    socket.addEventListener('error', () => this.drop(name, channel, 1011, 'Upstream error'));
+
+    this.sendControl({ type: 'opened', channel: name });
+  }
+
+  private release(name: string) {
+    const channel = this.channels.get(name);
+    if (!channel) return;
+
+    channel.refs--;
+    if (channel.refs > 0) return;
+
+    this.channels.delete(name);
+    if (channel.socket) closeQuietly(channel.socket);
+  }
+
+  /**
+   * The upstream side ended the channel - every opener hears about it
+   */
+  private drop(name: string, channel: UpstreamChannel, code: number, reason: string) {
+    if (this.channels.get(name) !== channel) return;
+
+    this.channels.delete(name);
+    if (channel.socket) closeQuietly(channel.socket);
+    this.sendControl({ type: 'closed', channel: name, code, reason });
+  }
+
+  private closeAll() {
+    for (const channel of this.channels.values()) {
+      if (channel.socket) closeQuietly(channel.socket);
+    }
+    this.channels.clear();
+    closeQuietly(this.client, 'Connection closed');
+  }
+
+  private send(channel: string, data: MuxFrameData) {
+    if (this.client.readyState !== WebSocket.OPEN) return;
+    this.client.send(encodeMuxFrame(channel, data));
+  }
+
+  private sendControl(message: MuxServerMessage) {
+    this.send(MUX_CONTROL_CHANNEL, JSON.stringify(message));
+  }
+}
+
+/**
+ * Close a socket that may already be closed or closing
+ */
+function closeQuietly(socket: WebSocket, reason = 'Channel closed') {
+  try {
+    socket.close(1000, reason);
+  } catch {
+    // Already closed
+  }
+}
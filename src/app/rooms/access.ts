@@ -0,0 +1,69 @@
+// src/app/rooms/access.ts
+import { db, type User } from "@/db";
+import { withVerifiedIdentity } from "@/durableObjects/identity";
+import { withRoomSettings } from "@/durableObjects/roomSettings";
+
+export const ROOM_VISIBILITIES = ['public', 'private', 'invite-only'] as const;
+export type RoomVisibility = typeof ROOM_VISIBILITIES[number];
+
+export type RoomAccess =
+  | { allowed: true; maxCapacity: number | null; visibility: RoomVisibility }
+  | { allowed: false; reason: string };
+
+// Who is asking for a room: the session user, or the anonymous id from the visitor's cookie
+export interface RoomRequester {
+  user: User | null;
+  anonymousUserId: string | null;
+}
+
+/**
+ * Decide whether `user` may use the room behind `key`.
+ * Rooms without a Room row are public with the default capacity.
+ * Private and invite-only rooms are limited to their owner and members - the owner
+ * adds members to a private room, while invite-only rooms are joined with an invite code.
+ */
+export async function checkRoomAccess(key: string, user: User | null): Promise<RoomAccess> {
+  const room = await db.room.findUnique({
+    where: { key },
+  });
+
+  if (!room || room.visibility === 'public') {
+    return { allowed: true, maxCapacity: room?.maxCapacity ?? null, visibility: 'public' };
+  }
+
+  if (!user) {
+    return { allowed: false, reason: 'Sign in to join this room' };
+  }
+
+  const membership = room.ownerId === user.id || await db.roomMember.findUnique({
+    where: { roomId_userId: { roomId: room.id, userId: user.id } },
+  });
+  if (!membership) {
+    const reason = room.visibility === 'invite-only'
+      ? 'Join this room with an invite link'
+      : 'You are not a member of this room';
+    return { allowed: false, reason };
+  }
+
+  return { allowed: true, maxCapacity: room.maxCapacity, visibility: room.visibility as RoomVisibility };
+}
+
+/**
+ * Check access and forward the request to a room's Durable Object with the
+ * verified identity and room settings attached. Non-members get a 403.
+ */
+export async function forwardToRoom(
+  durableObject: { fetch(request: Request): Promise<Response> },
+  request: Request,
+  key: string,
+  { user, anonymousUserId }: RoomRequester
+): Promise<Response> {
+  const access = await checkRoomAccess(key, user);
+
+  if (!access.allowed) {
+    console.log(`🚫 Room access denied for ${key}:`, access.reason);
+    return new Response(access.reason, { status: 403 });
+  }
+
+  return durableObject.fetch(withRoomSettings(withVerifiedIdentity(request, user, anonymousUserId), access));
+}
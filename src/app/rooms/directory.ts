@@ -0,0 +1,40 @@
+// src/app/rooms/directory.ts
+import { env } from "cloudflare:workers";
+import {
+  ROOM_REGISTRY_NAME,
+  type RoomSortField,
+  type RoomType,
+} from "@/durableObjects/roomRegistryDurableObject";
+
+const SORT_FIELDS: RoomSortField[] = ['userCount', 'createdAt', 'lastActivity'];
+
+/**
+ * List active rooms of a type from the registry
+ * Query params: sort (userCount | createdAt | lastActivity), order (asc | desc), limit, offset
+ */
+export async function listActiveRooms(request: Request, type: RoomType): Promise<Response> {
+  const url = new URL(request.url);
+  const sort = url.searchParams.get('sort') as RoomSortField | null;
+  const order = url.searchParams.get('order') === 'asc' ? 'asc' : 'desc';
+  const limit = Number(url.searchParams.get('limit')) || undefined;
+  const offset = Number(url.searchParams.get('offset')) || 0;
+
+  const registry = env.ROOM_REGISTRY_DURABLE_OBJECT.get(
+    env.ROOM_REGISTRY_DURABLE_OBJECT.idFromName(ROOM_REGISTRY_NAME)
+  );
+
+  const page = await registry.listRooms({
+    type,
+    sortBy: sort && SORT_FIELDS.includes(sort) ? sort : 'lastActivity',
+    order,
+    limit,
+    offset,
+  });
+
+  return new Response(JSON.stringify({
+    ...page,
+    hasMore: page.offset + page.rooms.length < page.total,
+  }), {
+    headers: { 'Content-Type': 'application/json' }
+  });
+}
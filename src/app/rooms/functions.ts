@@ -0,0 +1,165 @@
+"use server";
+import { requestInfo } from "rwsdk/worker";
+import { db } from "@/db";
+import { isValidRoomCapacity } from "@/durableObjects/roomSettings";
+import { ROOM_VISIBILITIES, type RoomVisibility } from "./access";
+
+async function findOwnedRoom(roomKey: string) {
+  const user = requestInfo.ctx.user;
+  if (!user) {
+    return null;
+  }
+
+  const room = await db.room.findUnique({
+    where: { key: roomKey },
+  });
+
+  if (!room || room.ownerId !== user.id) {
+    console.log(`🚫 ${user.username} is not the owner of room ${roomKey}`);
+    return null;
+  }
+
+  return room;
+}
+
+export async function createRoom(
+  roomKey: string,
+  visibility: RoomVisibility = "private",
+  maxCapacity: number | null = null,
+) {
+  const user = requestInfo.ctx.user;
+  if (!user || !ROOM_VISIBILITIES.includes(visibility)) {
+    return null;
+  }
+
+  // null keeps the room type's default
+  if (maxCapacity !== null && !isValidRoomCapacity(maxCapacity)) {
+    return null;
+  }
+
+  // Room keys are first-come: an existing room can't be claimed by someone else
+  const existing = await db.room.findUnique({
+    where: { key: roomKey },
+  });
+  if (existing) {
+    return null;
+  }
+
+  return db.room.create({
+    data: {
+      key: roomKey,
+      ownerId: user.id,
+      visibility,
+      maxCapacity,
+    },
+  });
+}
+
+export async function updateRoomSettings(
+  roomKey: string,
+  settings: { visibility?: RoomVisibility; maxCapacity?: number | null },
+) {
+  const room = await findOwnedRoom(roomKey);
+  if (!room) {
+    return false;
+  }
+
+  if (settings.visibility && !ROOM_VISIBILITIES.includes(settings.visibility)) {
+    return false;
+  }
+
+  if (settings.maxCapacity != null && !isValidRoomCapacity(settings.maxCapacity)) {
+    return false;
+  }
+
+  await db.room.update({
+    where: { id: room.id },
+    data: {
+      visibility: settings.visibility,
+      maxCapacity: settings.maxCapacity,
+      // Invite codes only mean something while the room is invite-only
+      ...(settings.visibility && settings.visibility !== "invite-only" ? { inviteCode: null } : {}),
+    },
+  });
+
+  return true;
+}
+
+export async function addRoomMember(roomKey: string, username: string) {
+  const room = await findOwnedRoom(roomKey);
+  if (!room) {
+    return false;
+  }
+
+  const member = await db.user.findUnique({
+    where: { username },
+  });
+  if (!member) {
+    return false;
+  }
+
+  await db.roomMember.upsert({
+    where: { roomId_userId: { roomId: room.id, userId: member.id } },
+    create: { roomId: room.id, userId: member.id },
+    update: {},
+  });
+
+  return true;
+}
+
+export async function removeRoomMember(roomKey: string, userId: string) {
+  const room = await findOwnedRoom(roomKey);
+  if (!room) {
+    return false;
+  }
+
+  await db.roomMember.deleteMany({
+    where: { roomId: room.id, userId },
+  });
+
+  return true;
+}
+
+/**
+ * Create the invite code for an invite-only room. Creating a new one revokes the old code.
+ */
+export async function createRoomInvite(roomKey: string) {
+  const room = await findOwnedRoom(roomKey);
+  if (!room || room.visibility !== "invite-only") {
+    return null;
+  }
+
+  const inviteCode = crypto.randomUUID();
+  await db.room.update({
+    where: { id: room.id },
+    data: { inviteCode },
+  });
+
+  return inviteCode;
+}
+
+/**
+ * Become a member of an invite-only room by presenting its current invite code
+ */
+export async function joinRoomWithInvite(roomKey: string, inviteCode: string) {
+  const user = requestInfo.ctx.user;
+  if (!user || !inviteCode) {
+    return false;
+  }
+
+  const room = await db.room.findUnique({
+    where: { key: roomKey },
+  });
+  if (!room || room.visibility !== "invite-only" || room.inviteCode !== inviteCode) {
+    console.log(`🚫 Invalid invite for room ${roomKey}`);
+    return false;
+  }
+
+  await db.roomMember.upsert({
+    where: { roomId_userId: { roomId: room.id, userId: user.id } },
+    create: { roomId: room.id, userId: user.id },
+    update: {},
+  });
+
+  return true;
+}
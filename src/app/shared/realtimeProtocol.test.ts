@@ -0,0 +1,148 @@
+import { describe, expect, it } from "vitest";
+import {
+  MUX_CONTROL_CHANNEL,
+  decodeMuxFrame,
+  encodeMuxFrame,
+  negotiateProtocolVersion,
+  parseGameClientMessage,
+  parseMuxClientMessage,
+  parsePresenceClientMessage,
+} from "./realtimeProtocol";
+
+const PROTOTYPE_KEYS = ['toString', 'constructor', 'hasOwnProperty', 'valueOf', '__proto__', 'isPrototypeOf'];
+
+describe("parsePresenceClientMessage", () => {
+  it("accepts a valid frame", () => {
+    const result = parsePresenceClientMessage(JSON.stringify({ type: 'presence_heartbeat', timestamp: 1 }));
+
+    expect(result).toEqual({ ok: true, message: { type: 'presence_heartbeat', timestamp: 1 } });
+  });
+
+  it("rejects frames that aren't JSON objects with a string type", () => {
+    for (const raw of ['not json', '[]', 'null', '42', JSON.stringify({ type: 7 })]) {
+      const result = parsePresenceClientMessage(raw);
+      expect(result.ok ? null : result.error.code).toBe('malformed_message');
+    }
+  });
+
+  it("rejects an unknown type", () => {
+    const result = parsePresenceClientMessage(JSON.stringify({ type: 'mouse_move', timestamp: 1 }));
+
+    expect(result.ok ? null : result.error).toMatchObject({ code: 'unknown_message_type', ref: 'mouse_move' });
+  });
+
+  it("rejects a known type with an invalid payload", () => {
+    const result = parsePresenceClientMessage(JSON.stringify({ type: 'presence_heartbeat', timestamp: 'now' }));
+
+    expect(result.ok ? null : result.error.code).toBe('invalid_payload');
+  });
+
+  it("requires a user id in identify", () => {
+    expect(parsePresenceClientMessage(JSON.stringify({ type: 'identify', userId: 'user-1' })).ok).toBe(true);
+    expect(parsePresenceClientMessage(JSON.stringify({ type: 'identify', userId: '' })).ok).toBe(false);
+    expect(parsePresenceClientMessage(JSON.stringify({ type: 'identify' })).ok).toBe(false);
+  });
+
+  it.each(PROTOTYPE_KEYS)("treats the prototype key %s as an unknown type", (type) => {
+    const result = parsePresenceClientMessage(JSON.stringify({ type, timestamp: 1 }));
+
+    expect(result.ok ? null : result.error.code).toBe('unknown_message_type');
+  });
+});
+
+describe("parseGameClientMessage", () => {
+  it("validates mouse_move coordinates", () => {
+    const valid = { type: 'mouse_move', timestamp: 1, data: { x: 1, y: 2, viewportWidth: 800, viewportHeight: 600 } };
+
+    expect(parseGameClientMessage(JSON.stringify(valid)).ok).toBe(true);
+    expect(parseGameClientMessage(JSON.stringify({ ...valid, data: { ...valid.data, x: '1' } })).ok).toBe(false);
+    expect(parseGameClientMessage(JSON.stringify({ ...valid, data: null })).ok).toBe(false);
+  });
+
+  it("validates the optional game_action fields", () => {
+    const action = (data: unknown) => parseGameClientMessage(JSON.stringify({ type: 'game_action', timestamp: 1, data }));
+
+    expect(action({}).ok).toBe(true);
+    expect(action({ score: 10, level: 2, gameData: { lives: 3 } }).ok).toBe(true);
+    expect(action({ score: 'ten' }).ok).toBe(false);
+    expect(action({ gameData: [] }).ok).toBe(false);
+  });
+
+  it("requires at least one numeric version in hello", () => {
+    expect(parseGameClientMessage(JSON.stringify({ type: 'hello', versions: [1] })).ok).toBe(true);
+    expect(parseGameClientMessage(JSON.stringify({ type: 'hello', versions: [] })).ok).toBe(false);
+    expect(parseGameClientMessage(JSON.stringify({ type: 'hello', versions: ['1'] })).ok).toBe(false);
+  });
+
+  it.each(PROTOTYPE_KEYS)("treats the prototype key %s as an unknown type", (type) => {
+    const result = parseGameClientMessage(JSON.stringify({ type, timestamp: 1 }));
+
+    expect(result.ok ? null : result.error.code).toBe('unknown_message_type');
+  });
+});
+
+describe("negotiateProtocolVersion", () => {
+  it("picks the highest common version", () => {
+    expect(negotiateProtocolVersion([0, 1, 99])).toBe(1);
+  });
+
+  it("returns null when there is no common version", () => {
+    expect(negotiateProtocolVersion([0, 99])).toBeNull();
+  });
+});
+
+describe("mux frames", () => {
+  it("round-trip text payloads, including ones with newlines", () => {
+    const frame = encodeMuxFrame('presence:/room/a:user-1', '{"type":"hello"}\n{}');
+
+    expect(decodeMuxFrame(frame)).toEqual({ channel: 'presence:/room/a:user-1', data: '{"type":"hello"}\n{}' });
+  });
+
+  it("round-trip binary payloads", () => {
+    const payload = new Uint8Array([0, 1, 2, 255]).buffer;
+    const frame = decodeMuxFrame(encodeMuxFrame('framework:/room/a:client-1', payload));
+
+    expect(frame?.channel).toBe('framework:/room/a:client-1');
+    expect(new Uint8Array(frame?.data as ArrayBuffer)).toEqual(new Uint8Array([0, 1, 2, 255]));
+  });
+
+  it("tag control messages with the empty channel", () => {
+    expect(decodeMuxFrame(encodeMuxFrame(MUX_CONTROL_CHANNEL, '{}'))).toEqual({ channel: MUX_CONTROL_CHANNEL, data: '{}' });
+  });
+
+  it("are rejected when they aren't tagged with a channel", () => {
+    expect(decodeMuxFrame('no separator')).toBeNull();
+    expect(decodeMuxFrame(new ArrayBuffer(0))).toBeNull();
+    expect(decodeMuxFrame(new Uint8Array([10, 97]).buffer)).toBeNull();
+  });
+});
+
+describe("parseMuxClientMessage", () => {
+  const open = (message: object) => parseMuxClientMessage(JSON.stringify({ type: 'open', channel: 'c', kind: 'presence', params: {}, ...message }));
+
+  it("accepts open and close", () => {
+    expect(open({ params: { key: '/room/a', token: 't' } }).ok).toBe(true);
+    expect(open({ kind: 'framework' }).ok).toBe(true);
+    expect(parseMuxClientMessage(JSON.stringify({ type: 'close', channel: 'c' })).ok).toBe(true);
+  });
+
+  it("rejects invalid channel names", () => {
+    expect(open({ channel: '' }).ok).toBe(false);
+    expect(open({ channel: 'a\nb' }).ok).toBe(false);
+    expect(open({ channel: 'x'.repeat(256) }).ok).toBe(false);
+  });
+
+  it("rejects unknown kinds and bad params", () => {
+    expect(open({ kind: 'admin' }).ok).toBe(false);
+    expect(open({ params: [] }).ok).toBe(false);
+    expect(open({ params: { key: 1 } }).ok).toBe(false);
+    expect(open({ params: { key: 'x'.repeat(2049) } }).ok).toBe(false);
+    expect(open({ params: Object.fromEntries(Array.from({ length: 9 }, (_, i) => [`p${i}`, 'v'])) }).ok).toBe(false);
+  });
+
+  it.each(PROTOTYPE_KEYS)("treats the prototype key %s as an unknown type", (type) => {
+    const result = parseMuxClientMessage(JSON.stringify({ type, channel: 'c' }));
+
+    expect(result.ok ? null : result.error.code).toBe('unknown_message_type');
+  });
+});
@@ -0,0 +1,913 @@
+// src/app/shared/realtimeProtocol.ts
+// Wire protocol shared by the presence/gamesync Durable Objects and the client hooks
+
+// Bump when a message shape changes incompatibly; the client offers the versions
+// it speaks in `hello` and the server answers with the one it picked
+export const PROTOCOL_VERSION = 1;
+export const SUPPORTED_PROTOCOL_VERSIONS: readonly number[] = [1];
+
+// ============================================================================
+// Shared entities
+// ============================================================================
+
+// Cursor coordinates are viewport-independent: x/y are normalized (0-1) document
+// coordinates, or normalized offsets inside the `data-presence-anchor` element
+// named by `anchor`. Positions broadcast by the server carry server timestamps.
+export interface MousePosition {
+  x: number;
+  y: number;
+  timestamp: number;
+  anchor?: string;
+}
+
+// One entry per person, however many tabs they have open
+export interface PresenceUser {
+  userId: string;
+  username: string;
+  joinedAt: number;
+  lastSeen: number;
+  status: PresenceStatus;
+  statusText?: string; // Custom status, e.g. "In a meeting"
+  statusEmoji?: string;
+  flags?: PresenceFlag[]; // Transient, each expires unless refreshed
+  activity: PresenceActivity; // Detected by the client, unlike the user-picked status
+  activitySince: number; // Server time the current activity began
+  connections: number; // Distinct tabs open in the room, across their shared connections
+}
+
+// Most to least active - a person is as active as their most active tab
+export const PRESENCE_ACTIVITIES = ['active', 'idle', 'hidden'] as const;
+export type PresenceActivity = typeof PRESENCE_ACTIVITIES[number];
+
+export const PRESENCE_STATUSES = ['active', 'idle', 'away', 'busy'] as const;
+export type PresenceStatus = typeof PRESENCE_STATUSES[number];
+
+export const PRESENCE_FLAGS = ['typing'] as const;
+export type PresenceFlag = typeof PRESENCE_FLAGS[number];
+
+export const MAX_STATUS_TEXT_LENGTH = 80;
+export const MAX_STATUS_EMOJI_LENGTH = 16; // UTF-16 code units - room for ZWJ sequences
+export const PRESENCE_FLAG_TTL = 5000; // ms a flag stays set without being refreshed
+
+// A user's tabs in a room share one presence connection, so activity and flags
+// are reported per tab and combined by the server
+export const TAB_ID_PATTERN = /^[\w-]{1,64}$/;
+
+export interface GameUser {
+  userId: string;
+  cursorId: number; // Short per-connection id used by binary cursor frames
+  username: string;
+  mousePosition: MousePosition | null;
+  cursorColor: string;
+  score?: number;
+  level?: number;
+  gameData?: Record<string, unknown>;
+  awareness?: Record<string, unknown>; // Per collaborative doc (by docId), e.g. a selection
+}
+
+export interface ChatMessage {
+  id: string; // Server-assigned, increasing
+  userId: string;
+  username: string;
+  text: string;
+  sentAt: number; // Server time
+  editedAt?: number;
+}
+
+export const MAX_CHAT_MESSAGE_LENGTH = 500;
+
+export interface MouseMoveData {
+  x: number;
+  y: number;
+  anchor?: string;
+}
+
+export const MAX_ANCHOR_LENGTH = 100;
+
+// Caps on a user's merged `gameData`, also enforced per game_action
+export const MAX_GAME_DATA_KEYS = 32;
+export const MAX_GAME_DATA_BYTES = 4096; // Serialized JSON
+
+export interface GameActionData {
+  score?: number;
+  level?: number;
+  gameData?: Record<string, unknown>;
+}
+
+// Shared room state is a flat map of '/'-separated paths (e.g. "board/cells/3") to
+// JSON values. Writing a path replaces everything above and below it. Every write
+// is stamped with the server time it was applied at, and the later stamp wins.
+export const STATE_PATH_SEPARATOR = '/';
+export const MAX_STATE_PATH_DEPTH = 8;
+export const MAX_STATE_SEGMENT_LENGTH = 64;
+export const MAX_STATE_VALUE_BYTES = 4096; // Serialized JSON
+
+// Collaborative documents are Yjs documents hosted by the room. Updates and state
+// vectors travel as base64 strings of the Yjs binary encoding.
+export const DOC_ID_PATTERN = /^[\w.-]{1,64}$/;
+export const MAX_AWARENESS_BYTES = 1024; // Serialized JSON, per doc
+
+// Broadcast events are relayed to other sockets right away and never stored
+export const EVENT_NAME_PATTERN = /^[\w:.-]{1,64}$/;
+export const MAX_EVENT_PAYLOAD_BYTES = 2048; // Serialized JSON
+export const MAX_EVENT_RECIPIENTS = 50;
+
+export type SharedStateOperation =
+  | { op: 'set'; path: string; value: unknown }
+  | { op: 'delete'; path: string }
+  | { op: 'increment'; path: string; by: number };
+
+export interface SharedStateEntry {
+  path: string;
+  value: unknown; // null for deletions
+  updatedAt: number; // Server time of the write
+  deleted?: boolean;
+}
+
+// ============================================================================
+// Handshake and errors (both channels)
+// ============================================================================
+
+// Optional protocol features, offered by the client and echoed back by the server if enabled
+export type ProtocolCapability = 'binary_cursor';
+
+export interface ClientHelloMessage {
+  type: 'hello';
+  versions: number[];
+  capabilities?: ProtocolCapability[];
+}
+
+export interface ServerHelloMessage {
+  type: 'hello';
+  version: number;
+  capabilities: ProtocolCapability[];
+}
+
+export type ErrorCode =
+  | 'malformed_message'
+  | 'unknown_message_type'
+  | 'invalid_payload'
+  | 'unsupported_version'
+  | 'identity_mismatch'
+  | 'rate_limited'
+  | 'payload_too_large'
+  | 'forbidden';
+
+export interface ErrorMessage {
+  type: 'error';
+  code: ErrorCode;
+  message: string;
+  ref?: string; // The offending message type, when known
+}
+
+// ============================================================================
+// Roster deltas (both channels)
+// ============================================================================
+
+// After the snapshot a client only receives patches. Each carries the next
+// sequence id; a client that sees a gap asks for a fresh snapshot.
+export interface UserJoinedMessage<U> {
+  type: 'user_joined';
+  seq: number;
+  user: U;
+}
+
+export interface UserUpdatedMessage<U> {
+  type: 'user_updated';
+  seq: number;
+  user: U;
+}
+
+export interface UserLeftMessage {
+  type: 'user_left';
+  seq: number;
+  userId: string;
+}
+
+export type RosterPatchMessage<U> =
+  | UserJoinedMessage<U>
+  | UserUpdatedMessage<U>
+  | UserLeftMessage;
+
+// ============================================================================
+// Presence channel
+// ============================================================================
+
+export interface PresenceHeartbeatMessage {
+  type: 'presence_heartbeat';
+  timestamp: number;
+}
+
+export interface RequestPresenceMessage {
+  type: 'request_presence';
+}
+
+// Sent right after `hello` so the server confirms which user the socket is bound
+// to; answered with `identified` followed by the full roster
+export interface IdentifyMessage {
+  type: 'identify';
+  userId: string;
+}
+
+// Omitted fields are left as they are; null clears the custom text/emoji.
+// A flag set to true must be re-sent within PRESENCE_FLAG_TTL to stay set, and
+// stays set for the person while any of their tabs has it set.
+export interface SetStatusMessage {
+  type: 'set_status';
+  tab: string;
+  status?: PresenceStatus;
+  text?: string | null;
+  emoji?: string | null;
+  flags?: Partial<Record<PresenceFlag, boolean>>;
+}
+
+// Sent when the client's detected activity changes, and after every (re)connect
+export interface SetActivityMessage {
+  type: 'set_activity';
+  tab: string;
+  activity: PresenceActivity;
+}
+
+// A tab stopped using the shared connection; its activity and flags no longer count
+export interface TabClosedMessage {
+  type: 'tab_closed';
+  tab: string;
+}
+
+export interface IdentifiedMessage {
+  type: 'identified';
+  userId: string;
+  username: string;
+}
+
+// Full roster snapshot, sent on connect and in reply to `identify` / `request_presence`
+export interface PresenceUpdateMessage {
+  type: 'presence_update';
+  seq: number;
+  data: PresenceUser[];
+  serverTime: number; // Lets clients relate the roster's timestamps to their own clock
+}
+
+export type PresenceClientMessage =
+  | ClientHelloMessage
+  | IdentifyMessage
+  | PresenceHeartbeatMessage
+  | RequestPresenceMessage
+  | SetStatusMessage
+  | SetActivityMessage
+  | TabClosedMessage;
+
+export type PresenceServerMessage =
+  | ServerHelloMessage
+  | IdentifiedMessage
+  | PresenceUpdateMessage
+  | RosterPatchMessage<PresenceUser>
+  | ErrorMessage;
+
+// ============================================================================
+// GameSync channel
+// ============================================================================
+
+export interface MouseMoveMessage {
+  type: 'mouse_move';
+  timestamp: number;
+  data: MouseMoveData;
+}
+
+export interface GameHeartbeatMessage {
+  type: 'heartbeat';
+  timestamp: number;
+}
+
+export interface GameActionMessage {
+  type: 'game_action';
+  timestamp: number;
+  data: GameActionData;
+}
+
+export interface RequestStateMessage {
+  type: 'request_state';
+  timestamp: number;
+}
+
+// Sent at the start of every server tick that carries changes (JSON clients only -
+// binary cursor batches carry the same server time in their header)
+export interface TickMessage {
+  type: 'tick';
+  serverTime: number;
+  tickRate: number; // Hz
+}
+
+export interface StateOperationMessage {
+  type: 'state_op';
+  timestamp: number;
+  data: SharedStateOperation;
+}
+
+// Full shared state, sent with every `initial_state`
+export interface StateSnapshotMessage {
+  type: 'state_snapshot';
+  entries: SharedStateEntry[];
+}
+
+// Shared state entries written since the last tick (deletions included)
+export interface StatePatchMessage {
+  type: 'state_patch';
+  entries: SharedStateEntry[];
+}
+
+// Sync step 1: the client's state vector for a doc. Also subscribes the socket to
+// the doc's updates until `doc_close`.
+export interface DocSyncMessage {
+  type: 'doc_sync';
+  docId: string;
+  stateVector: string;
+}
+
+// Sync step 2: what the client is missing, plus the server's state vector so the
+// client can send back what the server is missing (e.g. edits made offline)
+export interface DocSyncReplyMessage {
+  type: 'doc_sync_reply';
+  docId: string;
+  update: string;
+  stateVector: string;
+}
+
+// An incremental update - sent by clients and relayed to the doc's other subscribers
+export interface DocUpdateMessage {
+  type: 'doc_update';
+  docId: string;
+  update: string;
+}
+
+// Awareness rides on the roster: it is stored on the sender's GameUser
+export interface DocAwarenessMessage {
+  type: 'doc_awareness';
+  docId: string;
+  state: Record<string, unknown> | null; // null clears it
+}
+
+export interface DocCloseMessage {
+  type: 'doc_close';
+  docId: string;
+}
+
+// A fire-and-forget event for everyone else in the room, or only the users in `to`
+export interface BroadcastMessage {
+  type: 'broadcast';
+  event: string;
+  payload?: unknown;
+  to?: string[]; // userIds
+}
+
+// A relayed broadcast, stamped by the server
+export interface RoomEventMessage {
+  type: 'event';
+  event: string;
+  payload?: unknown;
+  senderId: string;
+  timestamp: number; // Server time
+}
+
+export interface ChatSendMessage {
+  type: 'chat_send';
+  text: string;
+}
+
+// Only the author may edit or delete a message
+export interface ChatEditMessage {
+  type: 'chat_edit';
+  id: string;
+  text: string;
+}
+
+export interface ChatDeleteMessage {
+  type: 'chat_delete';
+  id: string;
+}
+
+// A new or edited chat message (replaces the one with the same id)
+export interface ChatMessageUpdate {
+  type: 'chat_message';
+  message: ChatMessage;
+}
+
+export interface ChatMessageDeleted {
+  type: 'chat_deleted';
+  id: string;
+}
+
+// Full state snapshot, sent on connect and in reply to `request_state`
+export interface InitialStateMessage {
+  type: 'initial_state';
+  seq: number;
+  users: GameUser[];
+  totalUsers: number;
+  chat?: ChatMessage[]; // Recent history, oldest first - only in rooms with chat
+}
+
+export type GameClientMessage =
+  | ClientHelloMessage
+  | MouseMoveMessage
+  | GameHeartbeatMessage
+  | GameActionMessage
+  | RequestStateMessage
+  | StateOperationMessage
+  | DocSyncMessage
+  | DocUpdateMessage
+  | DocAwarenessMessage
+  | DocCloseMessage
+  | BroadcastMessage
+  | ChatSendMessage
+  | ChatEditMessage
+  | ChatDeleteMessage;
+
+export type GameServerMessage =
+  | ServerHelloMessage
+  | TickMessage
+  | InitialStateMessage
+  | RosterPatchMessage<GameUser>
+  | StateSnapshotMessage
+  | StatePatchMessage
+  | DocSyncReplyMessage
+  | DocUpdateMessage
+  | RoomEventMessage
+  | ChatMessageUpdate
+  | ChatMessageDeleted
+  | ErrorMessage;
+
+// ============================================================================
+// Runtime validation (server side, for inbound frames)
+// ============================================================================
+
+export type ParseResult<T> =
+  | { ok: true; message: T }
+  | { ok: false; error: ErrorMessage };
+
+type Validator = (value: Record<string, unknown>) => boolean;
+
+function isFiniteNumber(value: unknown): value is number {
+  return typeof value === 'number' && Number.isFinite(value);
+}
+
+function isPlainObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+const isClientHello: Validator = (value) =>
+  Array.isArray(value.versions) && value.versions.length > 0 && value.versions.every(isFiniteNumber) &&
+  (value.capabilities === undefined ||
+    (Array.isArray(value.capabilities) && value.capabilities.every(c => typeof c === 'string')));
+
+/**
+ * Whether `gameData` is an object within the key/size caps
+ */
+export function isWithinGameDataLimits(value: unknown): value is Record<string, unknown> {
+  return isPlainObject(value) &&
+    Object.keys(value).length <= MAX_GAME_DATA_KEYS &&
+    JSON.stringify(value).length <= MAX_GAME_DATA_BYTES;
+}
+
+/**
+ * Whether `path` is a non-empty shared state path within the depth/segment caps
+ */
+export function isValidStatePath(path: unknown): path is string {
+  if (typeof path !== 'string') return false;
+
+  const segments = path.split(STATE_PATH_SEPARATOR);
+  return segments.length <= MAX_STATE_PATH_DEPTH &&
+    segments.every(segment => segment.length > 0 && segment.length <= MAX_STATE_SEGMENT_LENGTH);
+}
+
+function isValidStateOperation(value: unknown): boolean {
+  if (!isPlainObject(value) || !isValidStatePath(value.path)) return false;
+
+  switch (value.op) {
+    case 'set':
+      return value.value !== undefined && JSON.stringify(value.value).length <= MAX_STATE_VALUE_BYTES;
+    case 'delete':
+      return true;
+    case 'increment':
+      return isFiniteNumber(value.by);
+    default:
+      return false;
+  }
+}
+
+const hasDocId: Validator = (value) => typeof value.docId === 'string' && DOC_ID_PATTERN.test(value.docId);
+
+const hasChatText: Validator = (value) =>
+  typeof value.text === 'string' && value.text.trim().length > 0 && value.text.length <= MAX_CHAT_MESSAGE_LENGTH;
+
+const hasChatId: Validator = (value) => typeof value.id === 'string' && value.id.length > 0;
+
+const hasTimestamp: Validator = (value) => isFiniteNumber(value.timestamp);
+
+function isOptionalText(value: unknown, maxLength: number): boolean {
+  return value === undefined || value === null || (typeof value === 'string' && value.length <= maxLength);
+}
+
+const hasTab: Validator = (value) => typeof value.tab === 'string' && TAB_ID_PATTERN.test(value.tab);
+
+const isStatusUpdate: Validator = (value) =>
+  hasTab(value) &&
+  (value.status === undefined || (PRESENCE_STATUSES as readonly unknown[]).includes(value.status)) &&
+  isOptionalText(value.text, MAX_STATUS_TEXT_LENGTH) &&
+  isOptionalText(value.emoji, MAX_STATUS_EMOJI_LENGTH) &&
+  (value.flags === undefined ||
+    (isPlainObject(value.flags) &&
+      Object.entries(value.flags).every(([flag, set]) =>
+        (PRESENCE_FLAGS as readonly string[]).includes(flag) && typeof set === 'boolean')));
+
+const PRESENCE_CLIENT_VALIDATORS: Record<PresenceClientMessage['type'], Validator> = {
+  hello: isClientHello,
+  identify: (value) => typeof value.userId === 'string' && value.userId.length > 0,
+  presence_heartbeat: hasTimestamp,
+  request_presence: () => true,
+  set_status: isStatusUpdate,
+  set_activity: (value) => hasTab(value) && (PRESENCE_ACTIVITIES as readonly unknown[]).includes(value.activity),
+  tab_closed: hasTab,
+};
+
+const GAME_CLIENT_VALIDATORS: Record<GameClientMessage['type'], Validator> = {
+  hello: isClientHello,
+  mouse_move: (value) =>
+    hasTimestamp(value) &&
+    isPlainObject(value.data) &&
+    isFiniteNumber(value.data.x) &&
+    isFiniteNumber(value.data.y) &&
+    (value.data.anchor === undefined ||
+      (typeof value.data.anchor === 'string' && value.data.anchor.length <= MAX_ANCHOR_LENGTH)),
+  heartbeat: hasTimestamp,
+  game_action: (value) =>
+    hasTimestamp(value) &&
+    isPlainObject(value.data) &&
+    (value.data.score === undefined || isFiniteNumber(value.data.score)) &&
+    (value.data.level === undefined || isFiniteNumber(value.data.level)) &&
+    (value.data.gameData === undefined || isWithinGameDataLimits(value.data.gameData)),
+  request_state: hasTimestamp,
+  state_op: (value) => hasTimestamp(value) && isValidStateOperation(value.data),
+  doc_sync: (value) => hasDocId(value) && typeof value.stateVector === 'string',
+  doc_update: (value) => hasDocId(value) && typeof value.update === 'string' && value.update.length > 0,
+  doc_awareness: (value) =>
+    hasDocId(value) &&
+    (value.state === null ||
+      (isPlainObject(value.state) && JSON.stringify(value.state).length <= MAX_AWARENESS_BYTES)),
+  doc_close: hasDocId,
+  broadcast: (value) =>
+    typeof value.event === 'string' && EVENT_NAME_PATTERN.test(value.event) &&
+    (value.payload === undefined || JSON.stringify(value.payload).length <= MAX_EVENT_PAYLOAD_BYTES) &&
+    (value.to === undefined ||
+      (Array.isArray(value.to) && value.to.length <= MAX_EVENT_RECIPIENTS && value.to.every(id => typeof id === 'string'))),
+  chat_send: hasChatText,
+  chat_edit: (value) => hasChatId(value) && hasChatText(value),
+  chat_delete: hasChatId,
+};
+
+export function errorFrame(code: ErrorCode, message: string, ref?: string): ErrorMessage {
+  return { type: 'error', code, message, ref };
+}
+
+function parseWith<T>(raw: string, validators: Record<string, Validator>): ParseResult<T> {
+  let value: unknown;
+  try {
+    value = JSON.parse(raw);
+  } catch {
+    return { ok: false, error: errorFrame('malformed_message', 'Frame is not valid JSON') };
+  }
+
+  if (!isPlainObject(value) || typeof value.type !== 'string') {
+    return { ok: false, error: errorFrame('malformed_message', 'Frame must be an object with a string `type`') };
+  }
+
+  // Own keys only - `toString`, `__proto__` and friends aren't message types
+  const validator = Object.hasOwn(validators, value.type) ? validators[value.type] : undefined;
+  if (!validator) {
+    return { ok: false, error: errorFrame('unknown_message_type', `Unknown message type "${value.type}"`, value.type) };
+  }
+
+  if (!validator(value)) {
+    return { ok: false, error: errorFrame('invalid_payload', `Invalid payload for "${value.type}"`, value.type) };
+  }
+
+  return { ok: true, message: value as T };
+}
+
+export function parsePresenceClientMessage(raw: string): ParseResult<PresenceClientMessage> {
+  return parseWith<PresenceClientMessage>(raw, PRESENCE_CLIENT_VALIDATORS);
+}
+
+export function parseGameClientMessage(raw: string): ParseResult<GameClientMessage> {
+  return parseWith<GameClientMessage>(raw, GAME_CLIENT_VALIDATORS);
+}
+
+/**
+ * Pick the highest version both sides speak, or null if there is none
+ */
+export function negotiateProtocolVersion(offered: number[]): number | null {
+  const common = offered.filter(version => SUPPORTED_PROTOCOL_VERSIONS.includes(version));
+  return common.length > 0 ? Math.max(...common) : null;
+}
+
+/**
+ * Where a roster patch fits after the last applied sequence id: `skip` while
+ * waiting for a snapshot or when the snapshot already covers it, `gap` when
+ * patches were missed and the client has to ask for a fresh snapshot
+ */
+export function checkRosterSeq(lastSeq: number | null, seq: number): 'apply' | 'skip' | 'gap' {
+  if (lastSeq === null || seq <= lastSeq) return 'skip';
+  return seq === lastSeq + 1 ? 'apply' : 'gap';
+}
+
+/**
+ * Apply a roster patch to a client-side roster (returns a new array)
+ */
+export function applyRosterPatch<U extends { userId: string }>(roster: U[], patch: RosterPatchMessage<U>): U[] {
+  if (patch.type === 'user_left') {
+    return roster.filter(user => user.userId !== patch.userId);
+  }
+
+  const index = roster.findIndex(user => user.userId === patch.user.userId);
+  if (index === -1) {
+    return [...roster, patch.user];
+  }
+
+  const next = [...roster];
+  next[index] = patch.user;
+  return next;
+}
+
+// ============================================================================
+// Binary cursor frames (GameSync channel, `binary_cursor` capability)
+// ============================================================================
+//
+// All multi-byte fields are little-endian.
+//
+// Coordinates are normalized document coordinates scaled by COORDINATE_SCALE.
+// Anchored positions can't be expressed here and always travel as JSON.
+//
+// Upstream move (client -> server), 7 bytes:
+//   u8 frame type | u16 x | u16 y | u16 ms since the client's previous move
+//
+// Downstream batch (server -> client), 11 + 8n bytes:
+//   u8 frame type | u16 count | f64 server timestamp
+//   then per cursor: u16 cursorId | u16 x | u16 y | u16 age in ms at send time
+//   (x = y = CURSOR_HIDDEN means the cursor was hidden)
+
+export const CURSOR_FRAME = {
+  MOVE: 0x01,
+  BATCH: 0x02,
+} as const;
+
+export const CURSOR_HIDDEN = 0xffff;
+const COORDINATE_SCALE = CURSOR_HIDDEN - 1;
+
+const CURSOR_MOVE_BYTES = 7;
+const CURSOR_BATCH_HEADER_BYTES = 11;
+const CURSOR_BATCH_ENTRY_BYTES = 8;
+const MAX_U16 = 0xffff;
+
+export interface CursorMoveFrame {
+  x: number;
+  y: number;
+  dt: number;
+}
+
+export interface CursorBatchEntry {
+  cursorId: number;
+  position: MousePosition | null;
+}
+
+export interface CursorBatch {
+  serverTime: number;
+  entries: CursorBatchEntry[];
+}
+
+function clampU16(value: number, max: number = MAX_U16): number {
+  return Math.min(Math.max(Math.round(value), 0), max);
+}
+
+/**
+ * Quantize a normalized coordinate to a u16, keeping CURSOR_HIDDEN free as a sentinel
+ */
+export function quantizeCoordinate(value: number): number {
+  return clampU16(value * COORDINATE_SCALE, COORDINATE_SCALE);
+}
+
+function dequantizeCoordinate(value: number): number {
+  return value / COORDINATE_SCALE;
+}
+
+export function encodeCursorMove(x: number, y: number, dt: number): ArrayBuffer {
+  const buffer = new ArrayBuffer(CURSOR_MOVE_BYTES);
+  const view = new DataView(buffer);
+  view.setUint8(0, CURSOR_FRAME.MOVE);
+  view.setUint16(1, quantizeCoordinate(x), true);
+  view.setUint16(3, quantizeCoordinate(y), true);
+  view.setUint16(5, clampU16(dt), true);
+  return buffer;
+}
+
+export function decodeCursorMove(buffer: ArrayBuffer): CursorMoveFrame | null {
+  if (buffer.byteLength !== CURSOR_MOVE_BYTES) return null;
+
+  const view = new DataView(buffer);
+  if (view.getUint8(0) !== CURSOR_FRAME.MOVE) return null;
+
+  return {
+    x: dequantizeCoordinate(view.getUint16(1, true)),
+    y: dequantizeCoordinate(view.getUint16(3, true)),
+    dt: view.getUint16(5, true),
+  };
+}
+
+export function encodeCursorBatch(now: number, entries: CursorBatchEntry[]): ArrayBuffer {
+  const count = Math.min(entries.length, MAX_U16);
+  const buffer = new ArrayBuffer(CURSOR_BATCH_HEADER_BYTES + count * CURSOR_BATCH_ENTRY_BYTES);
+  const view = new DataView(buffer);
+  view.setUint8(0, CURSOR_FRAME.BATCH);
+  view.setUint16(1, count, true);
+  view.setFloat64(3, now, true);
+
+  for (let i = 0; i < count; i++) {
+    const { cursorId, position } = entries[i];
+    const offset = CURSOR_BATCH_HEADER_BYTES + i * CURSOR_BATCH_ENTRY_BYTES;
+    view.setUint16(offset, cursorId, true);
+    view.setUint16(offset + 2, position ? quantizeCoordinate(position.x) : CURSOR_HIDDEN, true);
+    view.setUint16(offset + 4, position ? quantizeCoordinate(position.y) : CURSOR_HIDDEN, true);
+    view.setUint16(offset + 6, position ? clampU16(now - position.timestamp) : 0, true);
+  }
+
+  return buffer;
+}
+
+export function decodeCursorBatch(buffer: ArrayBuffer): CursorBatch | null {
+  if (buffer.byteLength < CURSOR_BATCH_HEADER_BYTES) return null;
+
+  const view = new DataView(buffer);
+  if (view.getUint8(0) !== CURSOR_FRAME.BATCH) return null;
+
+  const count = view.getUint16(1, true);
+  if (buffer.byteLength !== CURSOR_BATCH_HEADER_BYTES + count * CURSOR_BATCH_ENTRY_BYTES) return null;
+
+  const now = view.getFloat64(3, true);
+  const entries: CursorBatchEntry[] = [];
+
+  for (let i = 0; i < count; i++) {
+    const offset = CURSOR_BATCH_HEADER_BYTES + i * CURSOR_BATCH_ENTRY_BYTES;
+    const x = view.getUint16(offset + 2, true);
+    const y = view.getUint16(offset + 4, true);
+    entries.push({
+      cursorId: view.getUint16(offset, true),
+      position: x === CURSOR_HIDDEN && y === CURSOR_HIDDEN
+        ? null
+        : { x: dequantizeCoordinate(x), y: dequantizeCoordinate(y), timestamp: now - view.getUint16(offset + 6, true) },
+    });
+  }
+
+  return { serverTime: now, entries };
+}
+
+// ============================================================================
+// Base64 (collaborative doc updates)
+// ============================================================================
+
+export function toBase64(bytes: Uint8Array): string {
+  let binary = '';
+  // Chunked so large updates don't overflow the argument limit
+  for (let i = 0; i < bytes.length; i += 0x8000) {
+    binary += String.fromCharCode(...bytes.subarray(i, i + 0x8000));
+  }
+  return btoa(binary);
+}
+
+/**
+ * Decode base64, or null if the string isn't valid base64
+ */
+export function fromBase64(value: string): Uint8Array | null {
+  try {
+    const binary = atob(value);
+    const bytes = new Uint8Array(binary.length);
+    for (let i = 0; i < binary.length; i++) {
+      bytes[i] = binary.charCodeAt(i);
+    }
+    return bytes;
+  } catch {
+    return null;
+  }
+}
+
+// ============================================================================
+// Multiplexed connection (/__realtime/mux)
+// ============================================================================
+//
+// One socket per page carries every channel the page uses; the worker routes each
+// channel to the Durable Object its standalone endpoint would reach. Frames are
+// tagged with the channel they belong to:
+//   text:   channel name | '\n' | payload
+//   binary: u8 name length | channel name (UTF-8) | payload
+// Channel names are chosen by the client. The control channel (the empty name)
+// carries the JSON messages below.
+
+export const MUX_CONTROL_CHANNEL = '';
+export const MUX_CHANNEL_KINDS = ['presence', 'gamesync', 'framework'] as const;
+export type MuxChannelKind = typeof MUX_CHANNEL_KINDS[number];
+
+const MAX_MUX_CHANNEL_NAME_BYTES = 255;
+const MAX_MUX_PARAMS = 8;
+const MAX_MUX_PARAM_LENGTH = 2048;
+
+export type MuxFrameData = string | ArrayBuffer;
+
+export interface MuxFrame {
+  channel: string;
+  data: MuxFrameData;
+}
+
+// `params` become the query string of the channel's upgrade request (key, token, ...).
+// Opening a channel that's already open - from another tab sharing the connection -
+// adds a reference to it, and it stays open until every opener has closed it.
+export interface MuxOpenMessage {
+  type: 'open';
+  channel: string;
+  kind: MuxChannelKind;
+  params: Record<string, string>;
+}
+
+export interface MuxCloseMessage {
+  type: 'close';
+  channel: string;
+}
+
+export interface MuxOpenedMessage {
+  type: 'opened';
+  channel: string;
+}
+
+// The channel's upstream socket closed (or never opened); every opener has to open it again
+export interface MuxClosedMessage {
+  type: 'closed';
+  channel: string;
+  code: number;
+  reason: string;
+}
+
+export type MuxClientMessage = MuxOpenMessage | MuxCloseMessage;
+
+export type MuxServerMessage = MuxOpenedMessage | MuxClosedMessage | ErrorMessage;
+
+const textEncoder = new TextEncoder();
+const textDecoder = new TextDecoder();
+
+export function isValidMuxChannelName(name: unknown): name is string {
+  return typeof name === 'string' &&
+    name.length > 0 &&
+    !name.includes('\n') &&
+    textEncoder.encode(name).length <= MAX_MUX_CHANNEL_NAME_BYTES;
+}
+
+const MUX_CLIENT_VALIDATORS: Record<MuxClientMessage['type'], Validator> = {
+  open: (value) =>
+    isValidMuxChannelName(value.channel) &&
+    (MUX_CHANNEL_KINDS as readonly unknown[]).includes(value.kind) &&
+    isPlainObject(value.params) &&
+    Object.keys(value.params).length <= MAX_MUX_PARAMS &&
+    Object.values(value.params).every(param => typeof param === 'string' && param.length <= MAX_MUX_PARAM_LENGTH),
+  close: (value) => isValidMuxChannelName(value.channel),
+};
+
+export function parseMuxClientMessage(raw: string): ParseResult<MuxClientMessage> {
+  return parseWith<MuxClientMessage>(raw, MUX_CLIENT_VALIDATORS);
+}
+
+export function encodeMuxFrame(channel: string, data: MuxFrameData): MuxFrameData {
+  if (typeof data === 'string') {
+    return `${channel}\n${data}`;
+  }
+
+  const name = textEncoder.encode(channel);
+  const frame = new Uint8Array(1 + name.length + data.byteLength);
+  frame[0] = name.length;
+  frame.set(name, 1);
+  frame.set(new Uint8Array(data), 1 + name.length);
+  return frame.buffer;
+}
+
+/**
+ * Split a frame into its channel and payload, or null if it isn't tagged with one
+ */
+export function decodeMuxFrame(frame: MuxFrameData): MuxFrame | null {
+  if (typeof frame === 'string') {
+    const separator = frame.indexOf('\n');
+    if (separator === -1) return null;
+    return { channel: frame.slice(0, separator), data: frame.slice(separator + 1) };
+  }
+
+  const bytes = new Uint8Array(frame);
+  if (bytes.length === 0 || bytes.length < 1 + bytes[0]) return null;
+
+  return {
+    channel: textDecoder.decode(bytes.subarray(1, 1 + bytes[0])),
+    data: frame.slice(1 + bytes[0]),
+  };
+}
@@ -1,6 +1,6 @@
 // src/client.tsx
 import { initClient } from "rwsdk/client";
-import { initRealtimeClient } from "rwsdk/realtime/client";
+import { multiplexedTransport } from "@/app/lib/realtimeTransport";
 
 // Initialize the base client (required for RSC hydration)
 initClient();
@@ -70,9 +70,10 @@ async function initRealtimeWithPresence(pathname: string) {
   const userInfo = getUserInfo();
   
   try {
-    // Initialize the standard realtime client
-    await initRealtimeClient({
-      key: pathname,
+    // Initialize the standard realtime client, riding the page's multiplexed
+    // connection (see realtimeConnection) rather than a socket of its own
+    await initClient({
+      transport: multiplexedTransport({ key: pathname, sessionUserId: userInfo?.id ?? null }),
     });
     
     console.log('✅ Realtime client initialized successfully');
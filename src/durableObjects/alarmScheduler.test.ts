@@ -0,0 +1,162 @@
+import { describe, expect, it, vi } from "vitest";
+import { AlarmScheduler, type Clock, type Deadline } from "./alarmScheduler";
+import { MemoryStorage } from "@/test/memoryStorage";
+
+class FakeClock implements Clock {
+  constructor(public time = 1_000) {}
+  now() {
+    return this.time;
+  }
+}
+
+function createScheduler() {
+  const storage = new MemoryStorage();
+  const clock = new FakeClock();
+  const scheduler = new AlarmScheduler(storage.asStorage(), clock);
+  return { storage, clock, scheduler };
+}
+
+describe("AlarmScheduler", () => {
+  it("arms the storage alarm for the nearest deadline", async () => {
+    const { storage, scheduler } = createScheduler();
+
+    scheduler.schedule('heartbeat_timeout', 'alice', 5_000);
+    scheduler.schedule('grace_expiry', 'bob', 3_000);
+    scheduler.schedule('heartbeat_timeout', 'carol', 4_000);
+    await scheduler.settled();
+
+    expect(storage.alarm).toBe(3_000);
+    expect(storage.data.get('scheduler:queue')).toEqual([
+      { kind: 'grace_expiry', key: 'bob', runAt: 3_000 },
+      { kind: 'heartbeat_timeout', key: 'carol', runAt: 4_000 },
+      { kind: 'heartbeat_timeout', key: 'alice', runAt: 5_000 },
+    ]);
+  });
+
+  it("replaces a deadline scheduled again for the same kind and key", async () => {
+    const { storage, scheduler } = createScheduler();
+
+    scheduler.schedule('heartbeat_timeout', 'alice', 2_000);
+    scheduler.schedule('heartbeat_timeout', 'alice', 6_000);
+    await scheduler.settled();
+
+    expect(storage.alarm).toBe(6_000);
+    expect(storage.data.get('scheduler:queue')).toEqual([{ kind: 'heartbeat_timeout', key: 'alice', runAt: 6_000 }]);
+  });
+
+  it("keeps the queued deadline on ensure", async () => {
+    const { storage, scheduler } = createScheduler();
+
+    scheduler.ensure('room_idle', 'room', 2_000);
+    scheduler.ensure('room_idle', 'room', 9_000);
+    await scheduler.settled();
+
+    expect(storage.alarm).toBe(2_000);
+  });
+
+  it("re-arms or clears the alarm on cancel", async () => {
+    const { storage, scheduler } = createScheduler();
+
+    scheduler.schedule('grace_expiry', 'alice', 2_000);
+    scheduler.schedule('grace_expiry', 'bob', 3_000);
+    await scheduler.settled();
+
+    scheduler.cancel('grace_expiry', 'alice');
+    await scheduler.settled();
+    expect(storage.alarm).toBe(3_000);
+
+    scheduler.cancel('grace_expiry', 'bob');
+    await scheduler.settled();
+    expect(storage.alarm).toBeNull();
+    expect(storage.data.get('scheduler:queue')).toEqual([]);
+  });
+
+  it("runs only the deadlines that are due on the fake clock", async () => {
+    const { storage, clock, scheduler } = createScheduler();
+    scheduler.schedule('grace_expiry', 'alice', 2_000);
+    scheduler.schedule('grace_expiry', 'bob', 3_000);
+    scheduler.schedule('grace_expiry', 'carol', 8_000);
+
+    clock.time = 3_000;
+    const ran: Deadline[] = [];
+    await scheduler.runDue(deadline => {
+      ran.push(deadline);
+    });
+
+    expect(ran.map(deadline => deadline.key)).toEqual(['alice', 'bob']);
+    expect(storage.alarm).toBe(8_000);
+    expect(scheduler.has('grace_expiry', 'carol')).toBe(true);
+  });
+
+  it("persists deadlines a handler schedules while running", async () => {
+    const { storage, clock, scheduler } = createScheduler();
+    scheduler.schedule('heartbeat_timeout', 'alice', 2_000);
+
+    clock.time = 2_500;
+    // The user was seen since, so the handler pushes the deadline out
+    await scheduler.runDue(({ kind, key }) => scheduler.schedule(kind, key, 7_000));
+
+    expect(storage.alarm).toBe(7_000);
+    expect(storage.data.get('scheduler:queue')).toEqual([{ kind: 'heartbeat_timeout', key: 'alice', runAt: 7_000 }]);
+  });
+
+  it("keeps running due deadlines after a handler throws", async () => {
+    const { clock, scheduler } = createScheduler();
+    const error = vi.spyOn(console, 'error').mockImplementation(() => {});
+    scheduler.schedule('grace_expiry', 'alice', 2_000);
+    scheduler.schedule('grace_expiry', 'bob', 2_000);
+
+    clock.time = 2_000;
+    const ran: string[] = [];
+    await scheduler.runDue(({ key }) => {
+      ran.push(key);
+      if (key === 'alice') throw new Error('boom');
+    });
+
+    expect(ran).toEqual(['alice', 'bob']);
+    expect(error).toHaveBeenCalledOnce();
+    error.mockRestore();
+  });
+
+  it("coalesces a burst of changes into few writes", async () => {
+    const { storage, scheduler } = createScheduler();
+
+    for (let i = 0; i < 50; i++) {
+      scheduler.schedule('heartbeat_timeout', `user-${i}`, 2_000 + i);
+    }
+    await scheduler.settled();
+
+    // The first write, then one more for everything queued while it was in flight
+    expect(storage.puts).toBe(2);
+    expect((storage.data.get('scheduler:queue') as Deadline[]).length).toBe(50);
+  });
+
+  it("logs a failed write instead of rejecting, and rewrites with the next change", async () => {
+    const { storage, scheduler } = createScheduler();
+    const error = vi.spyOn(console, 'error').mockImplementation(() => {});
+
+    storage.failNextPut = new Error('storage unavailable');
+    scheduler.schedule('grace_expiry', 'alice', 2_000);
+    await scheduler.settled();
+    expect(error).toHaveBeenCalledOnce();
+    expect(storage.data.has('scheduler:queue')).toBe(false);
+
+    scheduler.schedule('grace_expiry', 'bob', 4_000);
+    await scheduler.settled();
+    expect(storage.alarm).toBe(2_000);
+    expect((storage.data.get('scheduler:queue') as Deadline[]).map(deadline => deadline.key)).toEqual(['alice', 'bob']);
+    error.mockRestore();
+  });
+
+  it("restores the queue and re-arms a lost alarm on load", async () => {
+    const { storage, clock } = createScheduler();
+    storage.data.set('scheduler:queue', [{ kind: 'grace_expiry', key: 'alice', runAt: 4_000 }]);
+
+    const scheduler = new AlarmScheduler(storage.asStorage(), clock);
+    await scheduler.load();
+
+    expect(scheduler.has('grace_expiry', 'alice')).toBe(true);
+    expect(storage.alarm).toBe(4_000);
+    expect(storage.puts).toBe(0);
+  });
+});
@@ -0,0 +1,190 @@
+// src/durableObjects/alarmScheduler.ts
+
+/**
+ * Minimal clock abstraction so deadline handling can be driven by a fake clock
+ */
+export interface Clock {
+  now(): number;
+}
+
+export const systemClock: Clock = {
+  now: () => Date.now()
+};
+
+/**
+ * The subset of DurableObjectStorage the scheduler needs
+ */
+export type SchedulerStorage = Pick<DurableObjectStorage, 'get' | 'put' | 'getAlarm' | 'setAlarm' | 'deleteAlarm'>;
+
+export interface Deadline<K extends string = string> {
+  kind: K;
+  key: string; // e.g. a userId, or 'room' for room-wide deadlines
+  runAt: number;
+}
+
+const QUEUE_STORAGE_KEY = 'scheduler:queue';
+
+/**
+ * Keeps a sorted queue of deadlines in DO storage and programs a single
+ * storage alarm for the nearest one. Deadlines are keyed by kind + key, so
+ * scheduling the same kind/key again replaces the earlier entry.
+ *
+ * Changes apply to the in-memory queue right away; persisting them is one
+ * write loop the scheduler owns, so callers don't handle its promises. Like
+ * the DOs' other storage writes, output gates hold replies until it's stored.
+ */
+export class AlarmScheduler<K extends string = string> {
+  private queue: Deadline<K>[] = [];
+  private armedAt: number | null | undefined = null; // undefined - unknown after a failed write
+  private persisting: Promise<void> | null = null;
+  private dirty = false;
+
+  constructor(
+    private storage: SchedulerStorage,
+    private clock: Clock = systemClock
+  ) {}
+
+  /**
+   * Restore the persisted queue - call from blockConcurrencyWhile in the constructor
+   */
+  async load() {
+    this.queue = (await this.storage.get<Deadline<K>[]>(QUEUE_STORAGE_KEY)) || [];
+    this.armedAt = await this.storage.getAlarm();
+
+    // The alarm may have been lost (e.g. deleted by a deploy); make sure it matches the queue
+    await this.flush(false);
+  }
+
+  now(): number {
+    return this.clock.now();
+  }
+
+  has(kind: K, key: string): boolean {
+    return this.queue.some(d => d.kind === kind && d.key === key);
+  }
+
+  /**
+   * Schedule (or reschedule) a deadline
+   */
+  schedule(kind: K, key: string, runAt: number) {
+    this.removeEntry(kind, key);
+    this.insert({ kind, key, runAt });
+    this.persist();
+  }
+
+  /**
+   * Schedule a deadline only if one isn't already queued for this kind/key.
+   * Use for high-frequency activity: the handler re-checks the real timestamp
+   * and reschedules, so we don't write storage on every event.
+   */
+  ensure(kind: K, key: string, runAt: number) {
+    if (this.has(kind, key)) return;
+    this.schedule(kind, key, runAt);
+  }
+
+  cancel(kind: K, key: string) {
+    if (!this.removeEntry(kind, key)) return;
+    this.persist();
+  }
+
+  /**
+   * Resolves once every change made so far is in storage. Never rejects -
+   * failed writes are logged and retried with the next change.
+   */
+  async settled() {
+    while (this.persisting) {
+      await this.persisting;
+    }
+  }
+
+  /**
+   * Pop every deadline that is due and hand it to the handler, then re-arm
+   * the alarm for whatever is left. Handlers may schedule new deadlines.
+   */
+  async runDue(handler: (deadline: Deadline<K>) => void | Promise<void>) {
+    // The alarm has fired, so nothing is armed until we set it again
+    this.armedAt = null;
+
+    const now = this.clock.now();
+    const due: Deadline<K>[] = [];
+    while (this.queue.length > 0 && this.queue[0].runAt <= now) {
+      due.push(this.queue.shift()!);
+    }
+
+    for (const deadline of due) {
+      try {
+        await handler(deadline);
+      } catch (error) {
+        console.error(`❌ Scheduled ${deadline.kind} for ${deadline.key} failed:`, error);
+      }
+    }
+
+    this.persist();
+    await this.settled();
+  }
+
+  private insert(deadline: Deadline<K>) {
+    // Binary search keeps the queue sorted by runAt
+    let low = 0;
+    let high = this.queue.length;
+    while (low < high) {
+      const mid = (low + high) >>> 1;
+      if (this.queue[mid].runAt <= deadline.runAt) {
+        low = mid + 1;
+      } else {
+        high = mid;
+      }
+    }
+    this.queue.splice(low, 0, deadline);
+  }
+
+  private removeEntry(kind: K, key: string): boolean {
+    const index = this.queue.findIndex(d => d.kind === kind && d.key === key);
+    if (index === -1) return false;
+    this.queue.splice(index, 1);
+    return true;
+  }
+
+  /**
+   * Write the queue, once per burst of changes: changes made while a write
+   * is in flight are picked up by one more write after it
+   */
+  private persist() {
+    this.dirty = true;
+    if (this.persisting) return;
+
+    this.persisting = (async () => {
+      try {
+        while (this.dirty) {
+          this.dirty = false;
+          await this.flush();
+        }
+      } catch (error) {
+        console.error('❌ Failed to persist scheduled deadlines:', error);
+        this.armedAt = undefined;
+      } finally {
+        this.persisting = null;
+      }
+    })();
+  }
+
+  private async flush(persist = true) {
+    // Compute everything synchronously so interleaved calls can't arm a stale deadline
+    const nextRunAt = this.queue.length > 0 ? this.queue[0].runAt : null;
+    const snapshot = [...this.queue];
+    const shouldArm = nextRunAt !== this.armedAt;
+    this.armedAt = nextRunAt;
+
+    if (persist) {
+      await this.storage.put(QUEUE_STORAGE_KEY, snapshot);
+    }
+
+    if (shouldArm) {
+      if (nextRunAt === null) {
+        await this.storage.deleteAlarm();
+      } else {
+        await this.storage.setAlarm(nextRunAt);
+      }
+    }
+  }
+}
@@ -0,0 +1,89 @@
+import { describe, expect, it } from "vitest";
+import { ChatHistory } from "./chatHistory";
+import type { Clock } from "./alarmScheduler";
+import { MemoryStorage } from "@/test/memoryStorage";
+
+class FakeClock implements Clock {
+  constructor(public time = 1_000) {}
+  now() {
+    return this.time;
+  }
+}
+
+function createHistory(maxMessages = 10, storage = new MemoryStorage()) {
+  const clock = new FakeClock();
+  const history = new ChatHistory(storage.asStorage(), maxMessages, clock);
+  return { storage, clock, history };
+}
+
+describe("ChatHistory", () => {
+  it("appends trimmed messages with increasing ids", () => {
+    const { history } = createHistory();
+
+    history.append('alice', 'Alice', '  hi  ');
+    history.append('bob', 'Bob', 'hello');
+
+    expect(history.list()).toEqual([
+      { id: '1', userId: 'alice', username: 'Alice', text: 'hi', sentAt: 1_000 },
+      { id: '2', userId: 'bob', username: 'Bob', text: 'hello', sentAt: 1_000 },
+    ]);
+  });
+
+  it("keeps only the most recent messages, in memory and in storage", () => {
+    const { storage, history } = createHistory(2);
+
+    for (const text of ['one', 'two', 'three']) {
+      history.append('alice', 'Alice', text);
+    }
+
+    expect(history.list().map(message => message.text)).toEqual(['two', 'three']);
+    expect([...storage.data.keys()]).toEqual(['chat:000000000002', 'chat:000000000003']);
+  });
+
+  it("lets the author edit a message", () => {
+    const { clock, history } = createHistory();
+    const { id } = history.append('alice', 'Alice', 'helo');
+
+    clock.time = 2_000;
+    const result = history.edit(id, 'alice', 'hello');
+
+    expect(result).toEqual({ ok: true, message: expect.objectContaining({ text: 'hello', editedAt: 2_000 }) });
+    expect(history.list()[0].text).toBe('hello');
+  });
+
+  it("lets the author delete a message", () => {
+    const { storage, history } = createHistory();
+    const { id } = history.append('alice', 'Alice', 'oops');
+
+    expect(history.remove(id, 'alice').ok).toBe(true);
+    expect(history.list()).toEqual([]);
+    expect(storage.data.size).toBe(0);
+  });
+
+  it("refuses changes from anyone but the author", () => {
+    const { history } = createHistory();
+    const { id } = history.append('alice', 'Alice', 'mine');
+
+    expect(history.edit(id, 'bob', 'theirs')).toMatchObject({ ok: false, code: 'forbidden' });
+    expect(history.remove(id, 'bob')).toMatchObject({ ok: false, code: 'forbidden' });
+    expect(history.list()[0].text).toBe('mine');
+  });
+
+  it("refuses changes to a message that doesn't exist", () => {
+    const { history } = createHistory();
+
+    expect(history.edit('42', 'alice', 'text')).toMatchObject({ ok: false, code: 'invalid_payload' });
+  });
+
+  it("restores messages and keeps numbering after a restart", async () => {
+    const { storage, history } = createHistory();
+    history.append('alice', 'Alice', 'one');
+    history.append('alice', 'Alice', 'two');
+
+    const restored = createHistory(10, storage).history;
+    await restored.load();
+
+    expect(restored.list().map(message => message.text)).toEqual(['one', 'two']);
+    expect(restored.append('bob', 'Bob', 'three').id).toBe('3');
+  });
+});
@@ -0,0 +1,103 @@
+// src/durableObjects/chatHistory.ts
+import { systemClock, type Clock } from "./alarmScheduler";
+import type { ChatMessage, ErrorCode } from "@/app/shared/realtimeProtocol";
+
+const STORAGE_PREFIX = 'chat:';
+
+/**
+ * The subset of DurableObjectStorage the history needs
+ */
+export type ChatStorage = Pick<DurableObjectStorage, 'list' | 'put' | 'delete'>;
+
+export type ChatChangeResult =
+  | { ok: true; message: ChatMessage }
+  | { ok: false; code: ErrorCode; error: string };
+
+/**
+ * A room's most recent chat messages, oldest first, persisted one key per
+ * message. Ids come from a counter, so they also order the storage keys.
+ */
+export class ChatHistory {
+  private messages: ChatMessage[] = [];
+  private nextId = 1;
+
+  constructor(
+    private storage: ChatStorage,
+    private maxMessages: number,
+    private clock: Clock = systemClock
+  ) {}
+
+  /**
+   * Restore persisted messages - call from blockConcurrencyWhile in the constructor
+   */
+  async load() {
+    const stored = await this.storage.list<ChatMessage>({ prefix: STORAGE_PREFIX });
+    this.messages = Array.from(stored.values());
+
+    const last = this.messages[this.messages.length - 1];
+    if (last) this.nextId = Number(last.id) + 1;
+  }
+
+  list(): ChatMessage[] {
+    return [...this.messages];
+  }
+
+  append(userId: string, username: string, text: string): ChatMessage {
+    const message: ChatMessage = {
+      id: String(this.nextId++),
+      userId,
+      username,
+      text: text.trim(),
+      sentAt: this.clock.now()
+    };
+    this.messages.push(message);
+    this.persist(message);
+
+    // Drop the oldest messages past the cap
+    const overflow = this.messages.splice(0, Math.max(0, this.messages.length - this.maxMessages));
+    if (overflow.length > 0) {
+      this.storage.delete(overflow.map(stale => storageKey(stale.id)));
+    }
+
+    return message;
+  }
+
+  edit(id: string, userId: string, text: string): ChatChangeResult {
+    const result = this.findOwn(id, userId);
+    if (!result.ok) return result;
+
+    const message: ChatMessage = { ...result.message, text: text.trim(), editedAt: this.clock.now() };
+    this.messages[this.messages.indexOf(result.message)] = message;
+    this.persist(message);
+    return { ok: true, message };
+  }
+
+  remove(id: string, userId: string): ChatChangeResult {
+    const result = this.findOwn(id, userId);
+    if (!result.ok) return result;
+
+    this.messages.splice(this.messages.indexOf(result.message), 1);
+    this.storage.delete(storageKey(id));
+    return result;
+  }
+
+  private findOwn(id: string, userId: string): ChatChangeResult {
+    const message = this.messages.find(candidate => candidate.id === id);
+    if (!message) {
+      return { ok: false, code: 'invalid_payload', error: `No chat message ${id}` };
+    }
+    if (message.userId !== userId) {
+      return { ok: false, code: 'forbidden', error: 'Only the author can change a message' };
+    }
+    return { ok: true, message };
+  }
+
+  private persist(message: ChatMessage) {
+    this.storage.put(storageKey(message.id), message);
+  }
+}
+
+// Zero-padded so storage lists messages in id order
+function storageKey(id: string): string {
+  return STORAGE_PREFIX + id.padStart(12, '0');
+}
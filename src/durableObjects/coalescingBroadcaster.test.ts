@@ -0,0 +1,151 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import { CoalescingBroadcaster, FixedRateTicker } from "./coalescingBroadcaster";
+
+const INTERVAL = 100;
+
+// Reads Date.now() so it follows the fake timers
+const clock = { now: () => Date.now() };
+
+describe("CoalescingBroadcaster", () => {
+  beforeEach(() => {
+    vi.useFakeTimers();
+    vi.setSystemTime(1_000_000);
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it("delivers the final roster when a user joins and leaves inside one interval", () => {
+    const roster = new Set<string>(["alice"]);
+    const sent: string[][] = [];
+    const broadcaster = new CoalescingBroadcaster(() => sent.push([...roster]), INTERVAL, clock);
+
+    broadcaster.schedule();
+    expect(sent).toEqual([["alice"]]);
+
+    vi.advanceTimersByTime(10);
+    roster.add("bob");
+    broadcaster.schedule();
+    vi.advanceTimersByTime(10);
+    roster.delete("bob");
+    broadcaster.schedule();
+
+    // Nothing more until the interval is up
+    expect(sent).toHaveLength(1);
+
+    vi.advanceTimersByTime(INTERVAL);
+    expect(sent).toEqual([["alice"], ["alice"]]);
+  });
+
+  it("sends a burst as one leading and one trailing flush", () => {
+    let version = 0;
+    const sent: number[] = [];
+    const broadcaster = new CoalescingBroadcaster(() => sent.push(version), INTERVAL, clock);
+
+    for (let i = 0; i < 50; i++) {
+      version++;
+      broadcaster.schedule();
+      vi.advanceTimersByTime(1);
+    }
+
+    vi.advanceTimersByTime(INTERVAL * 5);
+    expect(sent).toEqual([1, 50]);
+  });
+
+  it("reschedules the trailing flush after a suppressed request", () => {
+    const flush = vi.fn();
+    const broadcaster = new CoalescingBroadcaster(flush, INTERVAL, clock);
+
+    broadcaster.schedule();
+    expect(flush).toHaveBeenCalledTimes(1);
+
+    // Inside the interval - suppressed until the trailing flush
+    vi.advanceTimersByTime(30);
+    broadcaster.schedule();
+    expect(flush).toHaveBeenCalledTimes(1);
+
+    vi.advanceTimersByTime(INTERVAL - 30);
+    expect(flush).toHaveBeenCalledTimes(2);
+
+    // A request right after the trailing flush waits out a full interval from it
+    vi.advanceTimersByTime(20);
+    broadcaster.schedule();
+    expect(flush).toHaveBeenCalledTimes(2);
+
+    vi.advanceTimersByTime(INTERVAL - 21);
+    expect(flush).toHaveBeenCalledTimes(2);
+    vi.advanceTimersByTime(1);
+    expect(flush).toHaveBeenCalledTimes(3);
+
+    // Nothing pending, so nothing more is sent
+    vi.advanceTimersByTime(INTERVAL * 5);
+    expect(flush).toHaveBeenCalledTimes(3);
+  });
+});
+
+describe("FixedRateTicker", () => {
+  beforeEach(() => {
+    vi.useFakeTimers();
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it("flushes on the tick after a change, not straight away", () => {
+    const flush = vi.fn();
+    const ticker = new FixedRateTicker(flush, INTERVAL);
+
+    ticker.schedule();
+    expect(flush).not.toHaveBeenCalled();
+
+    vi.advanceTimersByTime(INTERVAL);
+    expect(flush).toHaveBeenCalledTimes(1);
+  });
+
+  it("sends at the tick rate however often changes arrive", () => {
+    let version = 0;
+    const sent: number[] = [];
+    const ticker = new FixedRateTicker(() => sent.push(version), INTERVAL);
+
+    // 1 change per ms for 5 ticks
+    for (let i = 0; i < INTERVAL * 5; i++) {
+      version++;
+      ticker.schedule();
+      vi.advanceTimersByTime(1);
+    }
+
+    expect(sent).toEqual([100, 200, 300, 400, 500]);
+  });
+
+  it("delivers the last change of a burst", () => {
+    const roster = new Set<string>(["alice"]);
+    const sent: string[][] = [];
+    const ticker = new FixedRateTicker(() => sent.push([...roster]), INTERVAL);
+
+    roster.add("bob");
+    ticker.schedule();
+    vi.advanceTimersByTime(10);
+    roster.delete("bob");
+    ticker.schedule();
+
+    vi.advanceTimersByTime(INTERVAL);
+    expect(sent).toEqual([["alice"]]);
+  });
+
+  it("stops ticking after a quiet tick and starts again on the next change", () => {
+    const flush = vi.fn();
+    const ticker = new FixedRateTicker(flush, INTERVAL);
+
+    ticker.schedule();
+    vi.advanceTimersByTime(INTERVAL * 2);
+    expect(flush).toHaveBeenCalledTimes(1);
+    expect(vi.getTimerCount()).toBe(0);
+
+    ticker.schedule();
+    expect(vi.getTimerCount()).toBe(1);
+    vi.advanceTimersByTime(INTERVAL);
+    expect(flush).toHaveBeenCalledTimes(2);
+  });
+});
@@ -0,0 +1,86 @@
+// src/durableObjects/coalescingBroadcaster.ts
+import { systemClock, type Clock } from "./alarmScheduler";
+
+/**
+ * Rate-limits a broadcast without ever dropping the last change: the first
+ * request after a quiet period flushes immediately, requests inside the
+ * interval are coalesced into a single trailing flush at the end of it.
+ * The flush callback should read the current state rather than carry its own.
+ */
+export class CoalescingBroadcaster {
+  private pending = false;
+  private lastFlush = 0;
+  private timer: ReturnType<typeof setTimeout> | null = null;
+
+  constructor(
+    private flush: () => void,
+    private minInterval: number,
+    private clock: Clock = systemClock
+  ) {}
+
+  /**
+   * Request a broadcast of the current state
+   */
+  schedule() {
+    this.pending = true;
+    if (this.timer) return; // Trailing flush already armed
+
+    const wait = this.lastFlush + this.minInterval - this.clock.now();
+    if (wait <= 0) {
+      this.run();
+      return;
+    }
+
+    this.timer = setTimeout(() => {
+      this.timer = null;
+      this.run();
+    }, wait);
+  }
+
+  private run() {
+    if (!this.pending) return;
+
+    // Cleared first so a schedule() from inside the flush arms the next one
+    this.pending = false;
+    this.lastFlush = this.clock.now();
+    this.flush();
+  }
+}
+
+/**
+ * Broadcasts on a fixed-rate tick: requests mark the state dirty and the next
+ * tick flushes it, so outbound frames go out at a steady rate however noisy the
+ * input is. The interval only runs while there are changes and stops after a
+ * quiet tick, so an idle room can hibernate.
+ */
+export class FixedRateTicker {
+  private dirty = false;
+  private interval: ReturnType<typeof setInterval> | null = null;
+
+  constructor(
+    private flush: () => void,
+    private tickInterval: number
+  ) {}
+
+  /**
+   * Request a broadcast of the current state on the next tick
+   */
+  schedule() {
+    this.dirty = true;
+    if (this.interval) return;
+
+    this.interval = setInterval(() => this.tick(), this.tickInterval);
+  }
+
+  private tick() {
+    if (!this.dirty) {
+      if (this.interval) clearInterval(this.interval);
+      this.interval = null;
+      return;
+    }
+
+    // Cleared first so a schedule() from inside the flush lands on the next tick
+    this.dirty = false;
+    this.flush();
+  }
+}
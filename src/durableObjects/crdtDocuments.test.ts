@@ -0,0 +1,120 @@
+import { describe, expect, it } from "vitest";
+import * as Y from 'yjs';
+import { CrdtDocumentStore, type CrdtDocumentLimits } from "./crdtDocuments";
+import { MemoryStorage } from "@/test/memoryStorage";
+
+const LIMITS: CrdtDocumentLimits = { maxBytes: 4096, compactAfter: 4 };
+
+function createStore(limits = LIMITS, storage = new MemoryStorage()) {
+  return { storage, store: new CrdtDocumentStore(storage.asStorage(), limits) };
+}
+
+/**
+ * A client doc whose local edits are captured as updates, like the provider sends them
+ */
+function createClient() {
+  const doc = new Y.Doc();
+  const updates: Uint8Array[] = [];
+  doc.on('update', (update: Uint8Array) => updates.push(update));
+  return { doc, text: doc.getText('body'), updates };
+}
+
+/**
+ * Run sync step 2 for `doc` against the store and apply what it was missing
+ */
+async function syncClient(store: CrdtDocumentStore, doc: Y.Doc) {
+  const { update } = await store.sync('notes', Y.encodeStateVector(doc));
+  Y.applyUpdate(doc, update);
+}
+
+describe("CrdtDocumentStore", () => {
+  it("converges concurrent edits from two clients", async () => {
+    const { store } = createStore();
+    const alice = createClient();
+    const bob = createClient();
+
+    alice.text.insert(0, 'Hello');
+    bob.text.insert(0, 'World');
+    for (const update of [...alice.updates, ...bob.updates]) {
+      expect(await store.apply('notes', update)).toEqual({ ok: true });
+    }
+
+    await syncClient(store, alice.doc);
+    await syncClient(store, bob.doc);
+
+    expect(alice.text.toString()).toBe(bob.text.toString());
+    expect(alice.text.toString()).toContain('Hello');
+    expect(alice.text.toString()).toContain('World');
+  });
+
+  it("sends a client only the updates it is missing", async () => {
+    const { store } = createStore();
+    const alice = createClient();
+    alice.text.insert(0, 'x'.repeat(500));
+    await store.apply('notes', alice.updates[0]);
+
+    const upToDate = await store.sync('notes', Y.encodeStateVector(alice.doc));
+    const fresh = await store.sync('notes', Y.encodeStateVector(new Y.Doc()));
+
+    expect(upToDate.update.byteLength).toBeLessThan(fresh.update.byteLength);
+    expect(fresh.update.byteLength).toBeGreaterThan(500);
+  });
+
+  it("refuses malformed and oversized updates without storing them", async () => {
+    const { storage, store } = createStore({ ...LIMITS, maxBytes: 200 });
+    const alice = createClient();
+    alice.text.insert(0, 'x'.repeat(500));
+
+    expect(await store.apply('notes', new Uint8Array([1, 2, 3]))).toMatchObject({ ok: false, code: 'invalid_payload' });
+    expect(await store.apply('notes', alice.updates[0])).toMatchObject({ ok: false, code: 'payload_too_large' });
+    expect(storage.data.size).toBe(0);
+  });
+
+  it("compacts the update log into one merged update", async () => {
+    const { storage, store } = createStore();
+    const alice = createClient();
+    for (const letter of 'abcdef') {
+      alice.text.insert(alice.text.length, letter);
+      await store.apply('notes', alice.updates[alice.updates.length - 1]);
+    }
+
+    // 3 increments, then compaction on the 4th, then 2 more
+    expect([...storage.data.keys()]).toEqual([
+      'doc:notes:0000000003',
+      'doc:notes:0000000004',
+      'doc:notes:0000000005',
+    ]);
+  });
+
+  it("reloads a document from storage after a restart", async () => {
+    const { storage, store } = createStore();
+    const alice = createClient();
+    for (const letter of 'abcde') {
+      alice.text.insert(alice.text.length, letter);
+      await store.apply('notes', alice.updates[alice.updates.length - 1]);
+    }
+
+    const restarted = createStore(LIMITS, storage).store;
+    const bob = createClient();
+    await syncClient(restarted, bob.doc);
+    expect(bob.text.toString()).toBe('abcde');
+
+    // Keeps appending after the keys it found
+    bob.text.insert(5, 'f');
+    await restarted.apply('notes', bob.updates[bob.updates.length - 1]);
+    expect([...storage.data.keys()].at(-1)).toBe('doc:notes:0000000005');
+  });
+
+  it("keeps documents apart", async () => {
+    const { store } = createStore();
+    const alice = createClient();
+    alice.text.insert(0, 'private');
+    await store.apply('notes', alice.updates[0]);
+
+    const other = new Y.Doc();
+    const { update } = await store.sync('other', Y.encodeStateVector(other));
+    Y.applyUpdate(other, update);
+
+    expect(other.getText('body').toString()).toBe('');
+  });
+});
@@ -0,0 +1,126 @@
+// src/durableObjects/crdtDocuments.ts
+import * as Y from 'yjs';
+import type { ErrorCode } from "@/app/shared/realtimeProtocol";
+
+const STORAGE_PREFIX = 'doc:';
+
+/**
+ * The subset of DurableObjectStorage the document store needs
+ */
+export type CrdtStorage = Pick<DurableObjectStorage, 'list' | 'put' | 'delete'>;
+
+export interface CrdtDocumentLimits {
+  maxBytes: number; // Size of a doc's merged update
+  compactAfter: number; // Stored increments before they're merged into one
+}
+
+export type CrdtApplyResult =
+  | { ok: true }
+  | { ok: false; code: ErrorCode; error: string };
+
+interface StoredDoc {
+  merged: Uint8Array; // Every update applied so far, as one Yjs update
+  keys: string[]; // Storage keys holding it, oldest first
+  nextIndex: number;
+}
+
+/**
+ * Persists Yjs documents as raw updates, without materializing a Y.Doc: each
+ * update is appended under its own key and the log is periodically compacted
+ * into a single merged update. Docs are loaded lazily on first use.
+ */
+export class CrdtDocumentStore {
+  private docs: Map<string, Promise<StoredDoc>> = new Map();
+
+  constructor(
+    private storage: CrdtStorage,
+    private limits: CrdtDocumentLimits
+  ) {}
+
+  /**
+   * Sync step 2 for a client that sent `stateVector`: the update it is missing
+   * and the server's own state vector
+   */
+  async sync(docId: string, stateVector: Uint8Array): Promise<{ update: Uint8Array; stateVector: Uint8Array }> {
+    const doc = await this.open(docId);
+    return {
+      update: Y.diffUpdate(doc.merged, stateVector),
+      stateVector: Y.encodeStateVectorFromUpdate(doc.merged)
+    };
+  }
+
+  /**
+   * Merge an update into the doc and persist it. Malformed updates are refused
+   * rather than stored, since they would break every later merge.
+   */
+  async apply(docId: string, update: Uint8Array): Promise<CrdtApplyResult> {
+    const doc = await this.open(docId);
+
+    let merged: Uint8Array;
+    try {
+      merged = Y.mergeUpdates([doc.merged, update]);
+    } catch {
+      return { ok: false, code: 'invalid_payload', error: 'Not a valid document update' };
+    }
+
+    if (merged.byteLength > this.limits.maxBytes) {
+      return { ok: false, code: 'payload_too_large', error: `Documents are limited to ${this.limits.maxBytes} bytes` };
+    }
+
+    doc.merged = merged;
+    if (doc.keys.length + 1 >= this.limits.compactAfter) {
+      this.compact(docId, doc);
+    } else {
+      this.append(docId, doc, update);
+    }
+    return { ok: true };
+  }
+
+  private open(docId: string): Promise<StoredDoc> {
+    let doc = this.docs.get(docId);
+    if (!doc) {
+      doc = this.load(docId);
+      this.docs.set(docId, doc);
+      // Don't cache a failed load
+      doc.catch(() => this.docs.delete(docId));
+    }
+    return doc;
+  }
+
+  private async load(docId: string): Promise<StoredDoc> {
+    const stored = await this.storage.list<Uint8Array>({ prefix: docKeyPrefix(docId) });
+    const keys = Array.from(stored.keys());
+    const lastKey = keys[keys.length - 1];
+
+    return {
+      merged: stored.size > 0 ? Y.mergeUpdates(Array.from(stored.values())) : Y.encodeStateAsUpdate(new Y.Doc()),
+      keys,
+      nextIndex: lastKey ? Number(lastKey.slice(docKeyPrefix(docId).length)) + 1 : 0
+    };
+  }
+
+  private append(docId: string, doc: StoredDoc, update: Uint8Array) {
+    const key = docKey(docId, doc.nextIndex++);
+    this.storage.put(key, update);
+    doc.keys.push(key);
+  }
+
+  /**
+   * Replace the stored log with the merged update (written before the old keys go)
+   */
+  private compact(docId: string, doc: StoredDoc) {
+    const staleKeys = doc.keys;
+    doc.keys = [];
+    this.append(docId, doc, doc.merged);
+    this.storage.delete(staleKeys);
+  }
+}
+
+function docKeyPrefix(docId: string): string {
+  return `${STORAGE_PREFIX}${docId}:`;
+}
+
+// Zero-padded so storage lists increments in order
+function docKey(docId: string, index: number): string {
+  return docKeyPrefix(docId) + String(index).padStart(10, '0');
+}
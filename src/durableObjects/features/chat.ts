@@ -0,0 +1,63 @@
+// src/durableObjects/features/chat.ts
+import { ChatHistory } from "../chatHistory";
+import type { RoomContext, RoomFeature } from "../roomEngine";
+import {
+  errorFrame,
+  type GameClientMessage,
+  type GameServerMessage,
+  type InitialStateMessage,
+} from "@/app/shared/realtimeProtocol";
+
+export interface ChatSettings {
+  maxHistory: number; // Maximum chat messages to keep
+}
+
+/**
+ * Room chat with persisted recent history, sent along with the roster snapshot
+ */
+export class Chat implements RoomFeature<GameClientMessage> {
+  readonly name = 'chat';
+  readonly messageTypes = ['chat_send', 'chat_edit', 'chat_delete'] as const;
+
+  private chat: ChatHistory;
+
+  constructor(private room: RoomContext<GameServerMessage>, settings: ChatSettings) {
+    this.chat = new ChatHistory(room.storage, settings.maxHistory);
+  }
+
+  async load() {
+    await this.chat.load();
+  }
+
+  handleMessage(ws: WebSocket, data: GameClientMessage) {
+    if (data.type !== 'chat_send' && data.type !== 'chat_edit' && data.type !== 'chat_delete') return;
+
+    const member = this.room.getMember(ws);
+    if (!member) return;
+
+    const result = data.type === 'chat_send'
+      ? { ok: true as const, message: this.chat.append(member.userId, member.username, data.text) }
+      : data.type === 'chat_edit'
+        ? this.chat.edit(data.id, member.userId, data.text)
+        : this.chat.remove(data.id, member.userId);
+
+    if (!result.ok) {
+      this.room.send(ws, errorFrame(result.code, result.error, data.type));
+      return;
+    }
+
+    // Everyone including the sender, who learns the id and timestamp this way
+    const update: GameServerMessage = data.type === 'chat_delete'
+      ? { type: 'chat_deleted', id: data.id }
+      : { type: 'chat_message', message: result.message };
+    for (const socket of this.room.getSockets()) {
+      this.room.send(socket, update);
+    }
+
+    this.room.touch(member);
+  }
+
+  describeSnapshot(): Pick<InitialStateMessage, 'chat'> {
+    return { chat: this.chat.list() };
+  }
+}
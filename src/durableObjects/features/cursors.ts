@@ -0,0 +1,238 @@
+// src/durableObjects/features/cursors.ts
+import type { Deadline } from "../alarmScheduler";
+import type { RoomContext, RoomFeature, RoomMember } from "../roomEngine";
+import {
+  decodeCursorMove,
+  encodeCursorBatch,
+  type CursorBatchEntry,
+  type GameClientMessage,
+  type GameServerMessage,
+  type MousePosition,
+  type ProtocolCapability,
+} from "@/app/shared/realtimeProtocol";
+
+export interface CursorSettings {
+  positionPrecision: number; // Decimal places for normalized (0-1) coordinates
+  throttleDistance: number; // Minimum normalized distance to trigger an update - 0 sends every move
+  cursorTimeout: number; // Hide a cursor after this long without moving
+  colors: readonly string[];
+}
+
+interface CursorState {
+  cursorId: number; // Short per-user id used by binary cursor frames
+  cursorColor: string;
+  mousePosition: MousePosition | null; // timestamp is server time
+  lastMouseUpdate: number;
+  clientMoveClock: number | null; // Sender's clock at its latest move
+  sampleClientClock: number | null; // Sender's clock at the move behind mousePosition
+}
+
+// Added to the room's socket attachment
+interface CursorAttachment {
+  cursorColor?: string;
+  cursorId?: number;
+}
+
+/**
+ * Live cursors: a color and a short id per user, positions sent with the
+ * tick - as binary batches to sockets that negotiated `binary_cursor`
+ */
+export class Cursors implements RoomFeature<GameClientMessage> {
+  readonly name = 'cursors';
+  readonly messageTypes = ['mouse_move'] as const;
+  readonly deadlineKinds = ['cursor_timeout'] as const;
+  readonly capabilities: readonly ProtocolCapability[] = ['binary_cursor'];
+
+  private cursors: Map<string, CursorState> = new Map();
+  private colorIndex = 0;
+  private nextCursorId = 1;
+  private cursorUpdates: Set<string> = new Set(); // Users whose cursor moved/hid since the last tick
+
+  constructor(private room: RoomContext<GameServerMessage>, private settings: CursorSettings) {}
+
+  /**
+   * Sockets carry their user's cursor across hibernation
+   */
+  async load() {
+    for (const ws of this.room.getSockets()) {
+      const { userId, cursorColor, cursorId } = this.room.getAttachment<CursorAttachment>(ws);
+      if (!userId || this.cursors.has(userId)) continue;
+
+      this.cursors.set(userId, this.createCursor(cursorColor, cursorId));
+    }
+  }
+
+  handleDeadline({ key: userId }: Deadline) {
+    const cursor = this.cursors.get(userId);
+    if (!cursor || !cursor.mousePosition) return;
+
+    const expiresAt = cursor.lastMouseUpdate + this.settings.cursorTimeout;
+    if (expiresAt > this.room.now()) {
+      this.room.scheduler.schedule('cursor_timeout', userId, expiresAt);
+      return;
+    }
+
+    // Hide cursor if inactive for too long
+    cursor.mousePosition = null;
+    this.cursorUpdates.add(userId);
+    this.room.requestBroadcast();
+  }
+
+  onConnect(ws: WebSocket, userId: string) {
+    const { cursorColor, cursorId } = this.getCursor(userId);
+    this.room.updateAttachment<CursorAttachment>(ws, { cursorColor, cursorId });
+  }
+
+  onHello(ws: WebSocket, capabilities: ProtocolCapability[]) {
+    // Binary sockets follow a different patch stream, so they need a snapshot from it
+    if (capabilities.includes('binary_cursor')) {
+      this.room.sendSnapshot(ws);
+    }
+  }
+
+  onMemberLeft(userId: string) {
+    this.cursors.delete(userId);
+    this.cursorUpdates.delete(userId);
+    this.room.scheduler.cancel('cursor_timeout', userId);
+    if (this.cursors.size === 0) this.colorIndex = 0;
+  }
+
+  handleBinary(ws: WebSocket, data: ArrayBuffer): boolean {
+    // Negotiated sockets send cursor moves as fixed-layout binary frames
+    const move = this.room.getAttachment(ws).binaryCursors ? decodeCursorMove(data) : null;
+    if (!move) return false;
+
+    const member = this.room.getMember(ws);
+    if (member) {
+      // dt is relative to the client's previous move (binary or JSON)
+      const cursor = this.getCursor(member.userId, ws);
+      this.updateCursor(cursor, member, move.x, move.y, (cursor.clientMoveClock ?? this.room.now()) + move.dt);
+    }
+    return true;
+  }
+
+  handleMessage(ws: WebSocket, data: GameClientMessage) {
+    if (data.type !== 'mouse_move') return;
+
+    const member = this.room.getMember(ws);
+    if (member) this.updateCursor(this.getCursor(member.userId, ws), member, data.data.x, data.data.y, data.timestamp, data.data.anchor);
+  }
+
+  private updateCursor(cursor: CursorState, member: RoomMember, x: number, y: number, clientClock: number, anchor?: string) {
+    const precision = Math.pow(10, this.settings.positionPrecision);
+    cursor.clientMoveClock = clientClock;
+
+    // Throttle updates by distance (moving between anchors always goes through)
+    if (cursor.mousePosition && cursor.mousePosition.anchor === anchor) {
+      const distance = Math.sqrt(
+        Math.pow(x - cursor.mousePosition.x, 2) +
+        Math.pow(y - cursor.mousePosition.y, 2)
+      );
+
+      if (distance < this.settings.throttleDistance) {
+        return; // Skip this update
+      }
+    }
+
+    // Sample times are server time, spaced like the sender's moves so network
+    // jitter doesn't bunch them up, but never ahead of the server clock
+    const now = this.room.now();
+    const previous = cursor.mousePosition;
+    const timestamp = previous && cursor.sampleClientClock !== null
+      ? Math.min(now, Math.max(previous.timestamp, previous.timestamp + (clientClock - cursor.sampleClientClock)))
+      : now;
+    cursor.sampleClientClock = clientClock;
+
+    // Update the mouse position (normalized, so clamp to the unit square)
+    cursor.mousePosition = {
+      x: Math.round(Math.min(Math.max(x, 0), 1) * precision) / precision,
+      y: Math.round(Math.min(Math.max(y, 0), 1) * precision) / precision,
+      timestamp,
+      ...(anchor ? { anchor } : {})
+    };
+    cursor.lastMouseUpdate = now;
+
+    this.room.touch(member);
+    this.room.scheduler.ensure('cursor_timeout', member.userId, cursor.lastMouseUpdate + this.settings.cursorTimeout);
+
+    // Picked up by the next tick
+    this.cursorUpdates.add(member.userId);
+    this.room.requestBroadcast();
+  }
+
+  describeMember(userId: string, binaryCursors: boolean) {
+    const { cursorId, cursorColor, mousePosition } = this.getCursor(userId);
+    // Anchored positions can't be encoded in binary frames, so they stay in the patches
+    return {
+      cursorId,
+      cursorColor,
+      mousePosition: binaryCursors && !mousePosition?.anchor ? null : mousePosition
+    };
+  }
+
+  describeJoin(userId: string) {
+    return { cursorColor: this.getCursor(userId).cursorColor };
+  }
+
+  /**
+   * The tick's cursor moves as one binary batch - JSON sockets get them in the roster patches
+   */
+  flush(now: number) {
+    const entries: CursorBatchEntry[] = [];
+    for (const userId of this.cursorUpdates) {
+      const cursor = this.cursors.get(userId);
+      if (cursor && !cursor.mousePosition?.anchor) {
+        entries.push({ cursorId: cursor.cursorId, position: cursor.mousePosition });
+      }
+    }
+    this.cursorUpdates.clear();
+
+    return entries.length > 0 ? { binary: [encodeCursorBatch(now, entries)] } : null;
+  }
+
+  /**
+   * The user's cursor, created on first use - from what `ws` carries, if given
+   */
+  private getCursor(userId: string, ws?: WebSocket): CursorState {
+    let cursor = this.cursors.get(userId);
+    if (!cursor) {
+      const { cursorColor, cursorId }: CursorAttachment = ws ? this.room.getAttachment<CursorAttachment>(ws) : {};
+      cursor = this.createCursor(cursorColor, cursorId);
+      this.cursors.set(userId, cursor);
+    }
+    return cursor;
+  }
+
+  private createCursor(cursorColor?: string, cursorId?: number): CursorState {
+    return {
+      cursorId: this.claimCursorId(cursorId),
+      cursorColor: cursorColor || this.getNextCursorColor(),
+      mousePosition: null,
+      lastMouseUpdate: 0,
+      clientMoveClock: null,
+      sampleClientClock: null
+    };
+  }
+
+  /**
+   * Reuse a cursor id carried by a socket, or allocate the next free u16 id
+   */
+  private claimCursorId(existing?: number): number {
+    if (existing !== undefined) {
+      this.nextCursorId = Math.max(this.nextCursorId, existing + 1);
+      return existing;
+    }
+
+    const inUse = new Set(Array.from(this.cursors.values(), cursor => cursor.cursorId));
+    while (inUse.has(this.nextCursorId) || this.nextCursorId >= 0xffff) {
+      this.nextCursorId = this.nextCursorId >= 0xffff ? 1 : this.nextCursorId + 1;
+    }
+    return this.nextCursorId++;
+  }
+
+  private getNextCursorColor(): string {
+    const color = this.settings.colors[this.colorIndex % this.settings.colors.length];
+    this.colorIndex++;
+    return color;
+  }
+}
@@ -0,0 +1,171 @@
+// src/durableObjects/features/documents.ts
+import { CrdtDocumentStore, type CrdtDocumentLimits } from "../crdtDocuments";
+import type { RoomContext, RoomFeature, RoomMember } from "../roomEngine";
+import {
+  errorFrame,
+  fromBase64,
+  toBase64,
+  type DocAwarenessMessage,
+  type DocSyncMessage,
+  type DocUpdateMessage,
+  type GameClientMessage,
+  type GameServerMessage,
+} from "@/app/shared/realtimeProtocol";
+
+export interface DocumentSettings {
+  limits: CrdtDocumentLimits;
+  maxDocsPerSocket: number;
+}
+
+// Added to the room's socket attachment
+interface DocumentAttachment {
+  docs?: string[]; // Collaborative docs the socket is subscribed to, once per open - tabs sharing the socket each open their own
+}
+
+/**
+ * Collaborative (CRDT) documents: persisted merged updates, relayed right
+ * away to subscribed sockets, plus per-doc awareness carried by the roster
+ */
+export class Documents implements RoomFeature<GameClientMessage> {
+  readonly name = 'documents';
+  readonly messageTypes = ['doc_sync', 'doc_update', 'doc_awareness', 'doc_close'] as const;
+
+  private documents: CrdtDocumentStore;
+  private awareness: Map<string, Record<string, unknown>> = new Map(); // By userId, then docId
+
+  constructor(private room: RoomContext<GameServerMessage>, private settings: DocumentSettings) {
+    this.documents = new CrdtDocumentStore(room.storage, settings.limits);
+  }
+
+  async handleMessage(ws: WebSocket, data: GameClientMessage) {
+    const member = this.room.getMember(ws);
+    if (!member) return;
+
+    switch (data.type) {
+      case 'doc_sync':
+        await this.handleDocSync(ws, data);
+        return;
+
+      case 'doc_update':
+        await this.handleDocUpdate(ws, member, data);
+        return;
+
+      case 'doc_awareness':
+        this.handleDocAwareness(ws, member, data);
+        return;
+
+      case 'doc_close': {
+        // Only one of the opens - another tab on this socket may still have it open
+        const docs = [...this.getSocketDocs(ws)];
+        const index = docs.indexOf(data.docId);
+        if (index === -1) return;
+        docs.splice(index, 1);
+        this.room.updateAttachment<DocumentAttachment>(ws, { docs });
+        if (!docs.includes(data.docId)) this.setAwareness(member, data.docId, null);
+        return;
+      }
+    }
+  }
+
+  private async handleDocSync(ws: WebSocket, data: DocSyncMessage) {
+    const docs = this.getSocketDocs(ws);
+    if (docs.length >= this.settings.maxDocsPerSocket) {
+      this.room.send(ws, errorFrame('invalid_payload', `At most ${this.settings.maxDocsPerSocket} open documents per connection`, data.type));
+      return;
+    }
+
+    const stateVector = fromBase64(data.stateVector);
+    let reply: { update: Uint8Array; stateVector: Uint8Array } | null = null;
+    try {
+      reply = stateVector && await this.documents.sync(data.docId, stateVector);
+    } catch (error) {
+      console.error(`Failed to sync document ${data.docId}:`, error);
+    }
+    if (!reply) {
+      this.room.send(ws, errorFrame('invalid_payload', 'Not a valid state vector', data.type));
+      this.room.reject(ws);
+      return;
+    }
+
+    // Subscribed from here on, so no update can fall between the reply and the relay
+    this.room.updateAttachment<DocumentAttachment>(ws, { docs: [...docs, data.docId] });
+    this.room.send(ws, {
+      type: 'doc_sync_reply',
+      docId: data.docId,
+      update: toBase64(reply.update),
+      stateVector: toBase64(reply.stateVector)
+    });
+  }
+
+  private async handleDocUpdate(ws: WebSocket, member: RoomMember, data: DocUpdateMessage) {
+    if (!this.getSocketDocs(ws).includes(data.docId)) {
+      this.room.send(ws, errorFrame('invalid_payload', `Sync document "${data.docId}" before updating it`, data.type));
+      return;
+    }
+
+    const update = fromBase64(data.update);
+    const result = update
+      ? await this.documents.apply(data.docId, update)
+      : { ok: false as const, code: 'invalid_payload' as const, error: 'Update is not valid base64' };
+    if (!result.ok) {
+      console.log(`⚠️ Rejected update to document ${data.docId} from ${member.username}: ${result.error}`);
+      this.room.send(ws, errorFrame(result.code, result.error, data.type));
+      if (result.code === 'invalid_payload') this.room.reject(ws);
+      return;
+    }
+
+    // Relayed right away rather than on the tick - other editors are waiting on it
+    const relay: GameServerMessage = { type: 'doc_update', docId: data.docId, update: data.update };
+    for (const socket of this.room.getSockets()) {
+      if (socket !== ws && this.getSocketDocs(socket).includes(data.docId)) {
+        this.room.send(socket, relay);
+      }
+    }
+
+    this.room.touch(member);
+  }
+
+  private handleDocAwareness(ws: WebSocket, member: RoomMember, data: DocAwarenessMessage) {
+    if (!this.getSocketDocs(ws).includes(data.docId)) {
+      this.room.send(ws, errorFrame('invalid_payload', `Sync document "${data.docId}" before sharing awareness`, data.type));
+      return;
+    }
+
+    this.setAwareness(member, data.docId, data.state);
+    this.room.touch(member);
+  }
+
+  /**
+   * Set or clear a user's awareness state for a doc - it reaches other clients with the roster
+   */
+  private setAwareness(member: RoomMember, docId: string, state: Record<string, unknown> | null) {
+    const current = this.awareness.get(member.userId);
+    if (!state && !current?.[docId]) return;
+
+    const awareness = { ...current };
+    if (state) {
+      awareness[docId] = state;
+    } else {
+      delete awareness[docId];
+    }
+
+    if (Object.keys(awareness).length > 0) {
+      this.awareness.set(member.userId, awareness);
+    } else {
+      this.awareness.delete(member.userId);
+    }
+    this.room.requestBroadcast();
+  }
+
+  private getSocketDocs(ws: WebSocket): string[] {
+    return this.room.getAttachment<DocumentAttachment>(ws).docs ?? [];
+  }
+
+  onMemberLeft(userId: string) {
+    this.awareness.delete(userId);
+  }
+
+  describeMember(userId: string) {
+    return { awareness: this.awareness.get(userId) };
+  }
+}
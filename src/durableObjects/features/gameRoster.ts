@@ -0,0 +1,334 @@
+// src/durableObjects/features/gameRoster.ts
+import type { Deadline } from "../alarmScheduler";
+import { generateAnonymousUserId, resolveClaimedIdentity } from "../identity";
+import { RosterDeltaTracker } from "../rosterDelta";
+import type { RoomContext, RoomFrame, RoomMember, RosterFeature } from "../roomEngine";
+import type {
+  GameClientMessage,
+  GameServerMessage,
+  GameUser,
+} from "@/app/shared/realtimeProtocol";
+
+export interface GameRosterSettings {
+  apiPrefix: string; // `${apiPrefix}/join`, `/leave` and `/state`
+  staleThreshold: number; // Without a sign of life for this long, a user is dropped
+  roomIdleTimeout: number; // No activity for this long and no sockets - release the room's state
+  tickRate: number; // Broadcasts per second, sent to clients with every tick
+  clientConfig: Record<string, number>; // Sent with the join response, along with tickRate
+}
+
+type GameRosterDeadlineKind = 'stale_user' | 'room_idle';
+const ROOM_DEADLINE_KEY = 'room';
+
+interface GameMember extends RoomMember {
+  joinedAt: number;
+  lastSeen: number;
+}
+
+// Added to the room's socket attachment
+interface GameRosterAttachment {
+  username?: string; // So the user can be rebuilt after hibernation
+}
+
+/**
+ * Everyone with a live game socket (or a recent join), dropped once stale.
+ * The roster patches carry whatever the room's other features describe
+ * about each user.
+ */
+export class GameRoster implements RosterFeature<GameClientMessage> {
+  readonly name = 'game_roster';
+  readonly messageTypes = ['heartbeat', 'request_state'] as const;
+  readonly deadlineKinds: readonly GameRosterDeadlineKind[] = ['stale_user', 'room_idle'];
+
+  private members: Map<string, GameMember> = new Map();
+  private lastActivity: number = 0;
+  private roster: RosterDeltaTracker<GameUser> = new RosterDeltaTracker();
+  // Sockets with binary cursors get patches without cursor positions - those arrive as binary batches
+  private cursorlessRoster: RosterDeltaTracker<GameUser> = new RosterDeltaTracker();
+
+  constructor(private room: RoomContext<GameServerMessage>, private settings: GameRosterSettings) {}
+
+  /**
+   * Sockets survive hibernation but in-memory state does not - rebuild it
+   */
+  async load() {
+    for (const ws of this.room.getSockets()) {
+      const { userId, username } = this.room.getAttachment<GameRosterAttachment>(ws);
+      if (!userId || this.members.has(userId)) continue;
+
+      this.restoreMember(userId, username);
+    }
+
+    if (this.members.size > 0) {
+      console.log(`💾 Restored ${this.members.size} users from hibernated sockets`);
+    }
+  }
+
+  async handleDeadline({ kind, key }: Deadline) {
+    const now = this.room.now();
+
+    switch (kind as GameRosterDeadlineKind) {
+      case 'stale_user': {
+        const member = this.members.get(key);
+        if (!member) return;
+
+        const expiresAt = member.lastSeen + this.settings.staleThreshold;
+        if (expiresAt > now) {
+          this.room.scheduler.schedule('stale_user', key, expiresAt);
+          return;
+        }
+
+        console.log(`🧹 Cleaned up inactive user ${member.username}`);
+        this.removeMember(key);
+        this.room.requestBroadcast();
+        return;
+      }
+
+      case 'room_idle': {
+        const expiresAt = this.lastActivity + this.settings.roomIdleTimeout;
+        if (expiresAt > now || this.room.getSockets().length > 0) {
+          this.room.scheduler.schedule('room_idle', ROOM_DEADLINE_KEY, Math.max(expiresAt, now + this.settings.roomIdleTimeout));
+          return;
+        }
+
+        console.log(`💤 ${this.room.type} room idle, releasing room state`);
+        for (const userId of this.members.keys()) {
+          this.removeMember(userId);
+        }
+        await this.room.usernames.clear();
+        // Nobody is listening, but the room directory hears the count drop to zero
+        this.room.requestBroadcast();
+        return;
+      }
+    }
+  }
+
+  private touchRoom(member: GameMember) {
+    const now = this.room.now();
+    this.lastActivity = now;
+    this.room.scheduler.ensure('room_idle', ROOM_DEADLINE_KEY, now + this.settings.roomIdleTimeout);
+    this.room.scheduler.ensure('stale_user', member.userId, member.lastSeen + this.settings.staleThreshold);
+  }
+
+  private addMember(userId: string, username: string): GameMember {
+    const now = this.room.now();
+    const member: GameMember = { userId, username, joinedAt: now, lastSeen: now };
+    this.members.set(userId, member);
+    return member;
+  }
+
+  /**
+   * Recreate a member from what their socket carries (hibernation, stale
+   * cleanup or a token presented after the member was dropped)
+   */
+  private restoreMember(userId: string, username?: string): GameMember {
+    return this.addMember(userId, username || this.room.usernames.get(userId));
+  }
+
+  private removeMember(userId: string) {
+    this.members.delete(userId);
+    this.room.scheduler.cancel('stale_user', userId);
+    this.room.memberLeft(userId);
+  }
+
+  fetch(request: Request, url: URL): Promise<Response> | null {
+    switch (url.pathname) {
+      case `${this.settings.apiPrefix}/join`:
+        return this.handleJoin(request);
+      case `${this.settings.apiPrefix}/leave`:
+        return this.handleLeave(request);
+      case `${this.settings.apiPrefix}/state`:
+        return this.handleGetState();
+      default:
+        return null;
+    }
+  }
+
+  private async handleJoin(request: Request): Promise<Response> {
+    try {
+      const data = await request.json() as {
+        userId?: string;
+        username?: string;
+        roomKey: string;
+      };
+
+      // Only the worker-verified identity may act as a registered user
+      const identity = resolveClaimedIdentity(request, data.userId, data.username);
+      if (identity.error) {
+        console.log(`🚫 Rejected ${this.room.type} join:`, identity.error);
+        return new Response(identity.error, { status: 403 });
+      }
+
+      this.room.identifyRoom(data.roomKey || '/default', request);
+
+      const userId = identity.userId || generateAnonymousUserId();
+      const username = identity.username || this.room.usernames.get(userId);
+      const member = this.addMember(userId, username);
+
+      console.log(`🎮 User ${username} joined game room (${userId})`);
+      this.touchRoom(member);
+      this.room.requestBroadcast();
+
+      const token = await this.room.signToken(userId, data.roomKey || '/default');
+
+      return new Response(JSON.stringify({
+        success: true,
+        userId,
+        username,
+        ...this.room.describeJoin(userId),
+        token,
+        config: {
+          ...this.settings.clientConfig,
+          tickRate: this.settings.tickRate
+        }
+      }), {
+        headers: { 'Content-Type': 'application/json' }
+      });
+
+    } catch (error) {
+      console.error(`❌ ${this.room.type} join error:`, error);
+      return new Response('Invalid request', { status: 400 });
+    }
+  }
+
+  private async handleLeave(request: Request): Promise<Response> {
+    try {
+      const data = await request.json() as { userId: string };
+
+      const identity = resolveClaimedIdentity(request, data.userId);
+      if (identity.error) {
+        return new Response(identity.error, { status: 403 });
+      }
+
+      // A tab leaving doesn't take the user out while their shared connection is still open
+      if (identity.userId && !this.room.getConnectionsByUser().has(identity.userId)) {
+        this.handleUserDisconnect(identity.userId);
+      }
+
+      return new Response(JSON.stringify({ success: true }));
+    } catch (error) {
+      return new Response('Invalid request', { status: 400 });
+    }
+  }
+
+  private async handleGetState(): Promise<Response> {
+    const users = this.getUsers(false).map(user => ({
+      ...user,
+      joinedAt: this.members.get(user.userId)?.joinedAt
+    }));
+
+    return new Response(JSON.stringify({
+      users,
+      totalUsers: users.length,
+      roomConfig: {
+        maxUsers: this.room.maxConnections,
+        ...this.settings.clientConfig
+      }
+    }), {
+      headers: { 'Content-Type': 'application/json' }
+    });
+  }
+
+  onConnect(ws: WebSocket, userId: string) {
+    // Bound to the token's user for the socket's whole lifetime
+    const member = this.members.get(userId) ?? this.restoreMember(userId);
+    this.room.updateAttachment<GameRosterAttachment>(ws, { username: member.username });
+    this.touchRoom(member);
+  }
+
+  /**
+   * A game socket went away: the user stays while they have another one open
+   * (a connection handing over to a new leading tab, or a second browser)
+   */
+  onSocketClosed(ws: WebSocket, userId: string) {
+    if (this.room.getConnectionsByUser(ws).has(userId)) {
+      console.log(`🎮 User ${userId} closed a connection, still connected in others`);
+      return;
+    }
+
+    this.handleUserDisconnect(userId);
+  }
+
+  private handleUserDisconnect(userId: string) {
+    const member = this.members.get(userId);
+    if (member) {
+      console.log(`🎮 User ${member.username} disconnected from game`);
+      this.removeMember(userId);
+      this.room.requestBroadcast();
+    }
+  }
+
+  handleMessage(ws: WebSocket, data: GameClientMessage) {
+    switch (data.type) {
+      case 'heartbeat': {
+        const member = this.getMember(ws);
+        if (member) this.touch(member);
+        return;
+      }
+
+      case 'request_state':
+        this.room.sendSnapshot(ws);
+        return;
+    }
+  }
+
+  /**
+   * The user a socket belongs to comes from its join token, never from the message
+   */
+  getMember(ws: WebSocket): GameMember | null {
+    const { userId, username } = this.room.getAttachment<GameRosterAttachment>(ws);
+    if (!userId) return null;
+
+    return this.members.get(userId) ?? this.restoreMember(userId, username);
+  }
+
+  touch(member: RoomMember) {
+    const current = this.members.get(member.userId);
+    if (!current) return;
+
+    current.lastSeen = this.room.now();
+    this.touchRoom(current);
+  }
+
+  occupancy(): number {
+    return this.members.size;
+  }
+
+  /**
+   * The roster changes since the last tick - one stream per kind of socket
+   */
+  flush(now: number) {
+    const json: RoomFrame[] = this.roster.diff(this.getUsers(false)).map(patch => JSON.stringify(patch));
+    // JSON clients get the tick's server time up front to place cursor samples on their timeline
+    if (json.length > 0) {
+      const tick: GameServerMessage = { type: 'tick', serverTime: now, tickRate: this.settings.tickRate };
+      json.unshift(JSON.stringify(tick));
+    }
+
+    const binary: RoomFrame[] = this.cursorlessRoster.diff(this.getUsers(true)).map(patch => JSON.stringify(patch));
+    return { json, binary };
+  }
+
+  sendSnapshot(ws: WebSocket) {
+    const users = this.getUsers(false);
+    const roster = this.room.getAttachment(ws).binaryCursors ? this.cursorlessRoster : this.roster;
+    this.room.send(ws, {
+      type: 'initial_state',
+      seq: roster.currentSeq,
+      users,
+      totalUsers: users.length,
+      ...this.room.describeSnapshot()
+    });
+  }
+
+  /**
+   * Members in their wire shape, as the room's features describe them
+   */
+  private getUsers(binaryCursors: boolean): GameUser[] {
+    return Array.from(this.members.values(), ({ userId, username }) => ({
+      userId,
+      username,
+      ...this.room.describeMember(userId, binaryCursors)
+    }) as GameUser);
+  }
+}
@@ -0,0 +1,123 @@
+// src/durableObjects/features/gameState.ts
+import { SharedStateDocument } from "../sharedState";
+import type { RoomContext, RoomFeature, RoomMember } from "../roomEngine";
+import {
+  errorFrame,
+  isWithinGameDataLimits,
+  type GameActionMessage,
+  type GameClientMessage,
+  type GameServerMessage,
+  type SharedStateEntry,
+  type StateOperationMessage,
+} from "@/app/shared/realtimeProtocol";
+
+export interface GameStateSettings {
+  maxSharedStateEntries: number; // Leaf paths in the room's shared state
+}
+
+// Optional game-specific data, per player
+interface PlayerData {
+  score?: number;
+  level?: number;
+  gameData?: Record<string, unknown>;
+}
+
+/**
+ * Per-player score/level/gameData, carried by the roster, and the room's
+ * persisted shared state, patched with the tick
+ */
+export class GameState implements RoomFeature<GameClientMessage> {
+  readonly name = 'game_state';
+  readonly messageTypes = ['game_action', 'state_op'] as const;
+
+  private players: Map<string, PlayerData> = new Map();
+  private sharedState: SharedStateDocument;
+  private stateChanges: Map<string, SharedStateEntry> = new Map(); // Shared state written since the last tick, by path
+
+  constructor(private room: RoomContext<GameServerMessage>, settings: GameStateSettings) {
+    this.sharedState = new SharedStateDocument(room.storage, settings.maxSharedStateEntries);
+  }
+
+  async load() {
+    await this.sharedState.load();
+  }
+
+  handleMessage(ws: WebSocket, data: GameClientMessage) {
+    const member = this.room.getMember(ws);
+    if (!member) return;
+
+    switch (data.type) {
+      case 'game_action':
+        this.handleGameAction(ws, member, data);
+        return;
+
+      case 'state_op':
+        this.handleStateOperation(ws, member, data);
+        return;
+    }
+  }
+
+  private handleGameAction(ws: WebSocket, member: RoomMember, data: GameActionMessage) {
+    const player = this.players.get(member.userId) ?? {};
+
+    // The merged gameData has to stay within the same caps as a single action
+    const gameData = data.data.gameData ? { ...player.gameData, ...data.data.gameData } : player.gameData;
+    if (gameData && !isWithinGameDataLimits(gameData)) {
+      console.log(`⚠️ Rejected game_action from ${member.username}: gameData over its limits`);
+      this.room.send(ws, errorFrame('payload_too_large', 'gameData would exceed its key or size limit', data.type));
+      this.room.reject(ws);
+      return;
+    }
+
+    // Handle game-specific actions (score updates, level changes, etc.)
+    if (data.data.score !== undefined) {
+      player.score = data.data.score;
+    }
+    if (data.data.level !== undefined) {
+      player.level = data.data.level;
+    }
+    player.gameData = gameData;
+    this.players.set(member.userId, player);
+
+    this.room.touch(member);
+    this.room.requestBroadcast();
+  }
+
+  private handleStateOperation(ws: WebSocket, member: RoomMember, data: StateOperationMessage) {
+    const result = this.sharedState.apply(data.data);
+    if (!result.ok) {
+      this.room.send(ws, errorFrame('invalid_payload', result.error, data.type));
+      return;
+    }
+
+    // Only the latest write per path goes out with the next tick
+    for (const entry of result.changes) {
+      this.stateChanges.set(entry.path, entry);
+    }
+
+    this.room.touch(member);
+    this.room.requestBroadcast();
+  }
+
+  onMemberLeft(userId: string) {
+    this.players.delete(userId);
+  }
+
+  describeMember(userId: string) {
+    const { score, level, gameData } = this.players.get(userId) ?? {};
+    return { score, level, gameData };
+  }
+
+  sendSnapshot(ws: WebSocket) {
+    this.room.send(ws, { type: 'state_snapshot', entries: this.sharedState.snapshot() });
+  }
+
+  flush() {
+    if (this.stateChanges.size === 0) return null;
+
+    const patch: GameServerMessage = { type: 'state_patch', entries: Array.from(this.stateChanges.values()) };
+    const payload = JSON.stringify(patch);
+    this.stateChanges.clear();
+    return { json: [payload], binary: [payload] };
+  }
+}
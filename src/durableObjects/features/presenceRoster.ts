@@ -0,0 +1,656 @@
+// src/durableObjects/features/presenceRoster.ts
+import type { Deadline } from "../alarmScheduler";
+import { generateAnonymousUserId, resolveClaimedIdentity } from "../identity";
+import { RosterDeltaTracker } from "../rosterDelta";
+import type { RoomContext, RoomMember, RosterFeature } from "../roomEngine";
+import {
+  errorFrame,
+  PRESENCE_ACTIVITIES,
+  PRESENCE_FLAG_TTL,
+  type PresenceActivity,
+  type PresenceClientMessage,
+  type PresenceFlag,
+  type PresenceServerMessage,
+  type PresenceUser,
+  type SetStatusMessage,
+} from "@/app/shared/realtimeProtocol";
+
+export interface PresenceRosterSettings {
+  apiPath: string; // Join/leave POSTs and roster GETs
+  heartbeatTimeout: number; // How long to wait for heartbeats before the grace period starts
+  reconnectGracePeriod: number; // Covers quick refreshes
+  maxTabsPerConnection: number; // Beyond this the longest-silent tab is forgotten
+}
+
+// Storage key prefixes - presence state is mirrored to the DO's SQLite storage
+// so a room survives hibernation, eviction and redeploys
+const STORAGE_PREFIX = {
+  PRESENCE: 'presence:',
+  RECONNECT: 'reconnect:',
+} as const;
+
+// Stored without `connections`, which is counted from the open sockets
+interface UserPresence extends Omit<PresenceUser, 'connections'> {
+  isReconnecting?: boolean; // Flag for users in grace period
+  flagExpiry?: Partial<Record<PresenceFlag, Record<string, number>>>; // When each set flag lapses, per tab
+}
+
+interface PendingReconnect {
+  userId: string;
+  username: string;
+  expiresAt: number;
+}
+
+type PresenceDeadlineKind = 'grace_expiry' | 'heartbeat_timeout' | 'flag_expiry';
+
+// Added to the room's socket attachment
+interface PresenceAttachment {
+  username?: string; // Display name at connect time, used if the user has to be re-added
+  // Last activity reported by each of the user's tabs sharing this socket, least recent first
+  tabs?: Record<string, PresenceActivity>;
+}
+
+type PresenceMessage = Exclude<PresenceClientMessage, { type: 'hello' }>;
+
+/**
+ * Who is in the room across all their tabs, with statuses, activity and a
+ * reconnect grace period so a refresh doesn't read as leaving
+ */
+export class PresenceRoster implements RosterFeature<PresenceClientMessage> {
+  readonly name = 'presence';
+  readonly messageTypes = ['identify', 'presence_heartbeat', 'set_status', 'set_activity', 'tab_closed', 'request_presence'] as const;
+  readonly deadlineKinds: readonly PresenceDeadlineKind[] = ['grace_expiry', 'heartbeat_timeout', 'flag_expiry'];
+
+  private presence: Map<string, UserPresence> = new Map();
+  private pendingReconnects: Map<string, PendingReconnect> = new Map(); // Handle reconnections gracefully
+  private roster: RosterDeltaTracker<PresenceUser> = new RosterDeltaTracker();
+
+  constructor(private room: RoomContext<PresenceServerMessage>, private settings: PresenceRosterSettings) {}
+
+  async load() {
+    const [presence, reconnects] = await Promise.all([
+      this.room.storage.list<UserPresence>({ prefix: STORAGE_PREFIX.PRESENCE }),
+      this.room.storage.list<PendingReconnect>({ prefix: STORAGE_PREFIX.RECONNECT }),
+    ]);
+
+    for (const user of presence.values()) {
+      // Entries persisted before statuses existed
+      this.presence.set(user.userId, {
+        ...user,
+        status: user.status ?? 'active',
+        activity: user.activity ?? 'active',
+        activitySince: user.activitySince ?? user.joinedAt
+      });
+    }
+    for (const pending of reconnects.values()) {
+      this.pendingReconnects.set(pending.userId, pending);
+    }
+
+    // Anything that expired while we were evicted is dropped by the next alarm
+    console.log(`💾 Restored ${this.presence.size} presence entries, ${this.room.usernames.size} usernames, ${this.pendingReconnects.size} pending reconnects`);
+  }
+
+  handleDeadline({ kind, key: userId }: Deadline) {
+    const now = this.room.now();
+
+    switch (kind as PresenceDeadlineKind) {
+      case 'grace_expiry': {
+        const pending = this.pendingReconnects.get(userId);
+        if (!pending) return;
+
+        // Reconnect window was extended since this deadline was queued
+        if (pending.expiresAt > now) {
+          this.room.scheduler.schedule('grace_expiry', userId, pending.expiresAt);
+          return;
+        }
+
+        this.removePendingReconnect(userId);
+        this.removePresence(userId);
+        console.log(`👋 User ${pending.username} left presence (grace period expired)`);
+        this.room.memberLeft(userId);
+        this.room.requestBroadcast();
+        return;
+      }
+
+      case 'heartbeat_timeout': {
+        const user = this.presence.get(userId);
+        // Users in reconnecting state have their own grace deadline
+        if (!user || user.isReconnecting) return;
+
+        const expiresAt = user.lastSeen + this.settings.heartbeatTimeout;
+        if (expiresAt > now) {
+          this.room.scheduler.schedule('heartbeat_timeout', userId, expiresAt);
+          return;
+        }
+
+        console.log(`💔 User ${user.username} missed heartbeat timeout, starting grace period`);
+        this.handleUserDisconnect(userId);
+        return;
+      }
+
+      case 'flag_expiry': {
+        const user = this.presence.get(userId);
+        if (!user) return;
+
+        // Flags refreshed since this deadline was queued are still set
+        const nextExpiry = this.expireFlags(user, now);
+        if (nextExpiry !== null) {
+          this.room.scheduler.schedule('flag_expiry', userId, nextExpiry);
+        }
+        return;
+      }
+    }
+  }
+
+  private trackHeartbeatTimeout(user: UserPresence) {
+    this.room.scheduler.ensure('heartbeat_timeout', user.userId, user.lastSeen + this.settings.heartbeatTimeout);
+  }
+
+  private persistPresence(user: UserPresence) {
+    this.room.storage.put(STORAGE_PREFIX.PRESENCE + user.userId, user);
+  }
+
+  private removePresence(userId: string) {
+    this.presence.delete(userId);
+    this.room.storage.delete(STORAGE_PREFIX.PRESENCE + userId);
+  }
+
+  private persistPendingReconnect(pending: PendingReconnect) {
+    this.room.storage.put(STORAGE_PREFIX.RECONNECT + pending.userId, pending);
+  }
+
+  private removePendingReconnect(userId: string) {
+    this.pendingReconnects.delete(userId);
+    this.room.storage.delete(STORAGE_PREFIX.RECONNECT + userId);
+  }
+
+  fetch(request: Request, url: URL): Promise<Response> | null {
+    return url.pathname === this.settings.apiPath ? this.handlePresenceAPI(request) : null;
+  }
+
+  private async handlePresenceAPI(request: Request): Promise<Response> {
+    if (request.method === 'POST') {
+      try {
+        const data = await request.json() as {
+          userId?: string;
+          username?: string;
+          action: 'join' | 'leave';
+          pathname: string;
+        };
+
+        // Only the worker-verified identity may act as a registered user
+        const identity = resolveClaimedIdentity(request, data.userId, data.username);
+        if (identity.error) {
+          console.log('🚫 Rejected presence request:', identity.error);
+          return new Response(identity.error, { status: 403 });
+        }
+
+        if (data.action === 'join') {
+          this.room.identifyRoom(data.pathname || '/default', request);
+          const effectiveUserId = identity.userId || generateAnonymousUserId();
+          const result = this.addUserPresence(effectiveUserId, identity.username);
+          const token = await this.room.signToken(effectiveUserId, data.pathname || '/default');
+
+          return new Response(JSON.stringify({
+            success: true,
+            userId: effectiveUserId,
+            username: result.username,
+            ...this.room.describeJoin(effectiveUserId),
+            token
+          }), {
+            headers: { 'Content-Type': 'application/json' }
+          });
+        } else if (data.action === 'leave') {
+          // A tab still connected keeps the person present; its socket closing will handle the leave
+          if (identity.userId && !this.room.getConnectionsByUser().has(identity.userId)) {
+            this.handleUserDisconnect(identity.userId);
+          }
+          return new Response(JSON.stringify({ success: true }));
+        }
+
+        return new Response('Invalid action', { status: 400 });
+      } catch (error) {
+        console.error('❌ Presence API error:', error);
+        return new Response('Invalid JSON', { status: 400 });
+      }
+    }
+
+    if (request.method === 'GET') {
+      // Users in reconnection state are left out
+      return new Response(JSON.stringify(this.getActivePresence()), {
+        headers: { 'Content-Type': 'application/json' }
+      });
+    }
+
+    return new Response('Method not allowed', { status: 405 });
+  }
+
+  private addUserPresence(userId: string, username?: string): UserPresence {
+    const now = this.room.now();
+
+    // Check if this user is in pending reconnect state
+    const pending = this.pendingReconnects.get(userId);
+    if (pending) {
+      console.log(`🔄 User ${pending.username} reconnected within grace period`);
+      this.removePendingReconnect(userId);
+      this.room.scheduler.cancel('grace_expiry', userId);
+
+      // Restore their presence with original join time
+      const existingPresence = this.presence.get(userId);
+      const userPresence: UserPresence = {
+        userId,
+        username: pending.username, // Use original username
+        joinedAt: existingPresence?.joinedAt || now,
+        lastSeen: now,
+        status: existingPresence?.status ?? 'active',
+        statusText: existingPresence?.statusText,
+        statusEmoji: existingPresence?.statusEmoji,
+        activity: existingPresence?.activity ?? 'active',
+        activitySince: existingPresence?.activitySince ?? now,
+        isReconnecting: false
+      };
+
+      this.presence.set(userId, userPresence);
+      this.persistPresence(userPresence);
+      this.trackHeartbeatTimeout(userPresence);
+      this.room.requestBroadcast();
+      return userPresence;
+    }
+
+    // Another tab (or a refresh) of someone already present joins their entry
+    const existing = this.presence.get(userId);
+
+    // Use provided username OR generate/reuse one
+    const displayName = username || this.room.usernames.get(userId);
+
+    const userPresence: UserPresence = {
+      userId,
+      username: displayName,
+      joinedAt: existing?.joinedAt || now,
+      lastSeen: now,
+      status: existing?.status ?? 'active',
+      statusText: existing?.statusText,
+      statusEmoji: existing?.statusEmoji,
+      // Each tab reports its real activity once its socket is identified
+      activity: existing?.activity ?? 'active',
+      activitySince: existing?.activitySince ?? now,
+      isReconnecting: false
+    };
+
+    this.presence.set(userId, userPresence);
+    this.persistPresence(userPresence);
+    this.trackHeartbeatTimeout(userPresence);
+
+    console.log(existing ? `🗂️ User ${displayName} joined from another tab (${userId})` : `👋 User ${displayName} joined presence (${userId})`);
+    this.room.requestBroadcast();
+
+    return userPresence;
+  }
+
+  onConnect(ws: WebSocket, userId: string) {
+    this.room.updateAttachment<PresenceAttachment>(ws, { username: this.presence.get(userId)?.username, tabs: {} });
+  }
+
+  /**
+   * A presence socket went away: the person stays while they have another one open
+   * (a connection handing over to a new leading tab, or a second browser)
+   */
+  onSocketClosed(ws: WebSocket, userId: string) {
+    const user = this.presence.get(userId);
+    if (user && this.room.getConnectionsByUser(ws).has(userId)) {
+      console.log(`🗂️ User ${user.username} closed a connection, still connected in others`);
+      this.refreshActivity(user, ws);
+      this.room.requestBroadcast();
+      return;
+    }
+
+    this.handleUserDisconnect(userId);
+  }
+
+  private handleUserDisconnect(userId: string) {
+    const user = this.presence.get(userId);
+    if (!user) return;
+
+    // Instead of immediately removing, add to pending reconnects for grace period
+    const reconnectEntry: PendingReconnect = {
+      userId,
+      username: user.username,
+      expiresAt: this.room.now() + this.settings.reconnectGracePeriod
+    };
+
+    this.pendingReconnects.set(userId, reconnectEntry);
+    this.persistPendingReconnect(reconnectEntry);
+
+    // Mark user as reconnecting in presence
+    user.isReconnecting = true;
+    this.presence.set(userId, user);
+    this.persistPresence(user);
+
+    console.log(`⏳ User ${user.username} disconnected, grace period active`);
+
+    // Don't broadcast immediately - give them a chance to reconnect.
+    // If they haven't reconnected when the deadline fires, they're removed.
+    this.room.scheduler.cancel('heartbeat_timeout', userId);
+    this.room.scheduler.schedule('grace_expiry', userId, reconnectEntry.expiresAt);
+  }
+
+  occupancy(): number {
+    return Array.from(this.presence.values()).filter(p => !p.isReconnecting).length;
+  }
+
+  /**
+   * The roster changes since the last broadcast
+   */
+  flush() {
+    // Only what changed since the last broadcast goes out
+    const patches = this.roster.diff(this.getActivePresence());
+    if (patches.length === 0) return null;
+
+    console.log(`📡 Broadcasting ${patches.length} presence patches to ${this.room.getSockets().length} connections:`,
+                patches.map(p => p.type));
+
+    const payloads = patches.map(patch => JSON.stringify(patch));
+    return { json: payloads, binary: payloads };
+  }
+
+  /**
+   * Active (not reconnecting) users, in their wire shape
+   */
+  private getActivePresence(): PresenceUser[] {
+    const now = this.room.now();
+    const connections = this.room.getConnectionsByUser();
+    return Array.from(this.presence.values())
+      .filter(p => !p.isReconnecting)
+      .map(({ userId, username, joinedAt, lastSeen, status, statusText, statusEmoji, flagExpiry, activity, activitySince }) => {
+        const flags = Object.entries(flagExpiry ?? {})
+          .filter(([, tabs]) => Object.values(tabs).some(expiresAt => expiresAt > now))
+          .map(([flag]) => flag as PresenceFlag);
+        return {
+          userId,
+          username,
+          joinedAt,
+          lastSeen,
+          status,
+          statusText,
+          statusEmoji,
+          flags: flags.length > 0 ? flags : undefined,
+          activity,
+          activitySince,
+          connections: this.countTabs(connections.get(userId) ?? []),
+          ...this.room.describeMember(userId, false)
+        };
+      });
+  }
+
+  /**
+   * Apply a set_status update. Flags set to true (re)start their expiry for the sending tab.
+   */
+  private applyStatus(user: UserPresence, update: SetStatusMessage) {
+    const now = this.room.now();
+
+    if (update.status) user.status = update.status;
+    if (update.text !== undefined) user.statusText = update.text?.trim() || undefined;
+    if (update.emoji !== undefined) user.statusEmoji = update.emoji?.trim() || undefined;
+
+    const flagExpiry = { ...user.flagExpiry };
+    for (const [flag, set] of Object.entries(update.flags ?? {}) as [PresenceFlag, boolean][]) {
+      const tabs = { ...flagExpiry[flag] };
+      if (set) {
+        tabs[update.tab] = now + PRESENCE_FLAG_TTL;
+      } else {
+        delete tabs[update.tab];
+      }
+      setFlagTabs(flagExpiry, flag, tabs);
+    }
+    user.flagExpiry = flagExpiry;
+
+    // Every flag shares the same TTL, so the queued deadline is never later than the next expiry
+    const nextExpiry = earliestExpiry(flagExpiry);
+    if (nextExpiry !== null) {
+      this.room.scheduler.ensure('flag_expiry', user.userId, nextExpiry);
+    }
+    this.persistPresence(user);
+  }
+
+  // A socket handing over to a new one briefly reports the same tabs - count them once.
+  // A socket none of whose tabs has reported yet is one tab.
+  private countTabs(sockets: WebSocket[]): number {
+    const tabs = new Set(sockets.flatMap(ws => Object.keys(this.getTabs(ws))));
+    return Math.max(tabs.size, 1);
+  }
+
+  private getTabs(ws: WebSocket): Record<string, PresenceActivity> {
+    return this.room.getAttachment<PresenceAttachment>(ws).tabs ?? {};
+  }
+
+  /**
+   * Re-derive the person's activity from their connected tabs; sockets whose
+   * tabs haven't reported yet count as active. Returns true if it changed.
+   */
+  private refreshActivity(user: UserPresence, closing?: WebSocket): boolean {
+    const sockets = this.room.getConnectionsByUser(closing).get(user.userId);
+    if (!sockets) return false;
+
+    const reported = sockets.flatMap(ws => {
+      const tabs = Object.values(this.getTabs(ws));
+      return tabs.length > 0 ? tabs : ['active' as const];
+    });
+    const activity = PRESENCE_ACTIVITIES.find(candidate => reported.includes(candidate)) ?? 'active';
+    return this.applyActivity(user, activity);
+  }
+
+  /**
+   * Record a change in the person's activity. Returns false if it didn't change.
+   */
+  private applyActivity(user: UserPresence, activity: PresenceActivity): boolean {
+    if (user.activity === activity) return false;
+
+    user.activity = activity;
+    user.activitySince = this.room.now();
+    this.persistPresence(user);
+    console.log(`💤 User ${user.username} is now ${activity}`);
+    return true;
+  }
+
+  /**
+   * Drop the user's lapsed flags. Returns when the next remaining one lapses, or null.
+   */
+  private expireFlags(user: UserPresence, now: number): number | null {
+    const flagExpiry = { ...user.flagExpiry };
+    let expired = false;
+    for (const [flag, tabs] of Object.entries(flagExpiry) as [PresenceFlag, Record<string, number>][]) {
+      const live = Object.fromEntries(Object.entries(tabs).filter(([, expiresAt]) => expiresAt > now));
+      if (Object.keys(live).length < Object.keys(tabs).length) {
+        setFlagTabs(flagExpiry, flag, live);
+        expired = true;
+      }
+    }
+
+    if (expired) {
+      user.flagExpiry = flagExpiry;
+      this.persistPresence(user);
+      this.room.requestBroadcast();
+    }
+    return earliestExpiry(flagExpiry);
+  }
+
+  /**
+   * Drop every flag a closed tab had set
+   */
+  private clearTabFlags(user: UserPresence, tab: string) {
+    const flagExpiry = { ...user.flagExpiry };
+    for (const [flag, tabs] of Object.entries(flagExpiry) as [PresenceFlag, Record<string, number>][]) {
+      const { [tab]: _closed, ...others } = tabs;
+      setFlagTabs(flagExpiry, flag, others);
+    }
+    user.flagExpiry = flagExpiry;
+    this.persistPresence(user);
+  }
+
+  handleMessage(ws: WebSocket, data: PresenceMessage) {
+    // The socket's user comes from its join token, never from the message
+    const attachment = this.room.getAttachment<PresenceAttachment>(ws);
+    const { userId } = attachment;
+
+    switch (data.type) {
+      case 'identify': {
+        if (!userId || data.userId !== userId) {
+          console.log(`🚫 Presence identify for ${data.userId} on a socket bound to ${userId}`);
+          this.room.send(ws, errorFrame('identity_mismatch', 'Socket is bound to a different user', data.type));
+          return;
+        }
+
+        // The user may have been dropped between the join request and the upgrade
+        const user = this.presence.get(userId) ?? this.addUserPresence(userId, attachment.username);
+        this.markUserActive(user);
+        this.refreshActivity(user);
+
+        console.log(`🪪 Presence socket identified as ${user.username}`);
+        this.room.send(ws, { type: 'identified', userId, username: user.username });
+        this.sendSnapshot(ws);
+        // Their connection count changed, if nothing else
+        this.room.requestBroadcast();
+        return;
+      }
+
+      case 'presence_heartbeat': {
+        if (!userId) return;
+        console.log('💓 Received heartbeat from user:', userId);
+
+        const user = this.presence.get(userId);
+        if (user) {
+          this.markUserActive(user);
+
+          // Broadcast updated presence to all connections (including this one)
+          this.room.requestBroadcast();
+        } else {
+          console.log('❌ User not found in presence map:', userId);
+        }
+        return;
+      }
+
+      case 'set_status': {
+        const user = userId ? this.presence.get(userId) : undefined;
+        if (!user) return;
+
+        this.markUserActive(user);
+        this.applyStatus(user, data);
+        this.room.requestBroadcast();
+        return;
+      }
+
+      case 'set_activity': {
+        const user = userId ? this.presence.get(userId) : undefined;
+        if (!user) return;
+
+        // Any report is a sign of life, even one saying the tab went idle
+        const reconnected = this.markUserActive(user);
+        const tabs = this.getTabs(ws);
+        const added = !(data.tab in tabs);
+        this.room.updateAttachment<PresenceAttachment>(ws, {
+          tabs: withTabActivity(tabs, data.tab, data.activity, this.settings.maxTabsPerConnection)
+        });
+        // A newly reporting tab changes the person's connection count
+        if (this.refreshActivity(user) || reconnected || added) this.room.requestBroadcast();
+        return;
+      }
+
+      case 'tab_closed': {
+        const user = userId ? this.presence.get(userId) : undefined;
+        const tabs = this.getTabs(ws);
+        if (!user || !(data.tab in tabs)) return;
+
+        const { [data.tab]: _closed, ...others } = tabs;
+        this.room.updateAttachment<PresenceAttachment>(ws, { tabs: others });
+        this.clearTabFlags(user, data.tab);
+        this.refreshActivity(user);
+        console.log(`🗂️ User ${user.username} closed a tab sharing their connection`);
+        this.room.requestBroadcast();
+        return;
+      }
+
+      case 'request_presence': {
+        // A live socket asking for the roster counts as activity for its user
+        const user = userId ? this.presence.get(userId) : undefined;
+        const changed = user ? this.markUserActive(user) : false;
+
+        this.sendSnapshot(ws);
+        if (changed) this.room.requestBroadcast();
+        return;
+      }
+    }
+  }
+
+  getMember(ws: WebSocket): RoomMember | null {
+    const { userId } = this.room.getAttachment(ws);
+    return (userId && this.presence.get(userId)) || null;
+  }
+
+  touch(member: RoomMember) {
+    const user = this.presence.get(member.userId);
+    if (user && this.markUserActive(user)) this.room.requestBroadcast();
+  }
+
+  /**
+   * Refresh a user's lastSeen and pull them out of the reconnect grace period.
+   * Returns true if they were reconnecting (i.e. the roster changed).
+   */
+  private markUserActive(user: UserPresence): boolean {
+    const wasReconnecting = !!user.isReconnecting || this.pendingReconnects.has(user.userId);
+
+    user.lastSeen = this.room.now();
+    user.isReconnecting = false;
+    this.persistPresence(user);
+    this.trackHeartbeatTimeout(user);
+
+    if (this.pendingReconnects.has(user.userId)) {
+      this.removePendingReconnect(user.userId);
+      this.room.scheduler.cancel('grace_expiry', user.userId);
+      console.log(`✅ User ${user.username} fully reconnected`);
+    }
+
+    return wasReconnecting;
+  }
+
+  sendSnapshot(ws: WebSocket) {
+    this.room.send(ws, {
+      type: 'presence_update',
+      seq: this.roster.currentSeq,
+      data: this.getActivePresence(),
+      serverTime: this.room.now()
+    });
+  }
+}
+
+function earliestExpiry(flagExpiry: Partial<Record<PresenceFlag, Record<string, number>>>): number | null {
+  const expiries = Object.values(flagExpiry).flatMap(tabs => Object.values(tabs ?? {}));
+  return expiries.length > 0 ? Math.min(...expiries) : null;
+}
+
+// A flag no tab has set is left out altogether
+function setFlagTabs(
+  flagExpiry: Partial<Record<PresenceFlag, Record<string, number>>>,
+  flag: PresenceFlag,
+  tabs: Record<string, number>
+) {
+  if (Object.keys(tabs).length > 0) {
+    flagExpiry[flag] = tabs;
+  } else {
+    delete flagExpiry[flag];
+  }
+}
+
+/**
+ * Record a tab's activity as the most recent report, forgetting the
+ * longest-silent tabs past `maxTabs`
+ */
+function withTabActivity(
+  tabs: Record<string, PresenceActivity>,
+  tab: string,
+  activity: PresenceActivity,
+  maxTabs: number
+): Record<string, PresenceActivity> {
+  const { [tab]: _previous, ...others } = tabs;
+  const kept = Object.entries(others).slice(-(maxTabs - 1));
+  return { ...Object.fromEntries(kept), [tab]: activity };
+}
@@ -0,0 +1,39 @@
+// src/durableObjects/features/roomEvents.ts
+import type { RoomContext, RoomFeature } from "../roomEngine";
+import type { GameClientMessage, GameServerMessage } from "@/app/shared/realtimeProtocol";
+
+/**
+ * Relays events as-is to the other sockets (or just the listed users'),
+ * without touching room state
+ */
+export class RoomEvents implements RoomFeature<GameClientMessage> {
+  readonly name = 'events';
+  readonly messageTypes = ['broadcast'] as const;
+
+  constructor(private room: RoomContext<GameServerMessage>) {}
+
+  handleMessage(ws: WebSocket, data: GameClientMessage) {
+    if (data.type !== 'broadcast') return;
+
+    const member = this.room.getMember(ws);
+    if (!member) return;
+
+    const event: GameServerMessage = {
+      type: 'event',
+      event: data.event,
+      payload: data.payload,
+      senderId: member.userId,
+      timestamp: this.room.now()
+    };
+    const recipients = data.to ? new Set(data.to) : null;
+
+    for (const socket of this.room.getSockets()) {
+      if (socket === ws) continue;
+
+      const { userId } = this.room.getAttachment(socket);
+      if (userId && (!recipients || recipients.has(userId))) {
+        this.room.send(socket, event);
+      }
+    }
+  }
+}
@@ -0,0 +1,95 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import { GameSyncPresenceDurableObject } from "./gameSyncPresenceDurableObject";
+import { IDENTITY_HEADERS } from "./identity";
+import { FakeDurableObjectState, FakeWebSocket, FakeWebSocketPair, UpgradeResponse } from "@/test/workerRuntime";
+
+const ROOM = '/game';
+const env = { AUTH_SECRET_KEY: 'test-secret' } as Env;
+
+async function createRoom() {
+  const state = new FakeDurableObjectState();
+  const room = new GameSyncPresenceDurableObject(state.asState(), env);
+  await state.ready();
+  return room;
+}
+
+function gameRequest(userId: string, action: 'join' | 'leave') {
+  return new Request(`https://example.com/__gamesync/${action}`, {
+    method: 'POST',
+    headers: { [IDENTITY_HEADERS.USER_ID]: userId, [IDENTITY_HEADERS.USERNAME]: userId },
+    body: JSON.stringify({ userId, roomKey: ROOM }),
+  });
+}
+
+/**
+ * Join over HTTP and open a game socket with the returned token
+ */
+async function connect(room: GameSyncPresenceDurableObject, userId: string): Promise<FakeWebSocket> {
+  const { token } = await (await room.fetch(gameRequest(userId, 'join'))).json() as { token: string };
+  const response = await room.fetch(new Request(
+    `https://example.com/__gamesync/ws?key=${encodeURIComponent(ROOM)}&token=${encodeURIComponent(token)}`,
+    { headers: { Upgrade: 'websocket' } }
+  )) as UpgradeResponse;
+
+  expect(response.status).toBe(101);
+  return response.clientSocket!;
+}
+
+async function disconnect(room: GameSyncPresenceDurableObject, client: FakeWebSocket) {
+  const server = client.peer!;
+  server.close(1000);
+  await room.webSocketClose(server.asWebSocket(), 1000, 'Closed', true);
+}
+
+async function usersIn(room: GameSyncPresenceDurableObject): Promise<string[]> {
+  const { users } = await (await room.fetch(new Request('https://example.com/__gamesync/state'))).json() as {
+    users: { userId: string }[];
+  };
+  return users.map(user => user.userId).sort();
+}
+
+describe("GameSyncPresenceDurableObject connections", () => {
+  beforeEach(() => {
+    vi.useFakeTimers({ toFake: ['setTimeout', 'clearTimeout', 'setInterval', 'clearInterval', 'Date'] });
+    vi.stubGlobal('WebSocket', FakeWebSocket);
+    vi.stubGlobal('WebSocketPair', FakeWebSocketPair);
+    vi.stubGlobal('Response', UpgradeResponse);
+  });
+
+  afterEach(() => {
+    vi.unstubAllGlobals();
+    vi.useRealTimers();
+  });
+
+  it("keeps a user whose tab left while their connection is still open", async () => {
+    const room = await createRoom();
+    await connect(room, 'alice');
+    await connect(room, 'bob');
+
+    await room.fetch(gameRequest('alice', 'leave'));
+
+    expect(await usersIn(room)).toEqual(['alice', 'bob']);
+  });
+
+  it("removes a user only when their last connection closes", async () => {
+    const room = await createRoom();
+    const first = await connect(room, 'alice');
+    // Handing over to a new leading tab: the old connection closes after the new one opens
+    const second = await connect(room, 'alice');
+
+    await disconnect(room, first);
+    expect(await usersIn(room)).toEqual(['alice']);
+
+    await disconnect(room, second);
+    expect(await usersIn(room)).toEqual([]);
+  });
+
+  it("removes a user who leaves with no connection open", async () => {
+    const room = await createRoom();
+    await room.fetch(gameRequest('alice', 'join'));
+
+    await room.fetch(gameRequest('alice', 'leave'));
+
+    expect(await usersIn(room)).toEqual([]);
+  });
+});
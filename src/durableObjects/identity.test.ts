@@ -0,0 +1,82 @@
+import { describe, expect, it } from "vitest";
+import {
+  ANONYMOUS_COOKIE,
+  IDENTITY_HEADERS,
+  createAnonymousCookie,
+  readAnonymousCookie,
+  resolveClaimedIdentity,
+  withVerifiedIdentity,
+} from "./identity";
+
+const SECRET = 'test-secret';
+
+function requestWithCookie(setCookie: string) {
+  // Echo the cookie back the way a browser would
+  const cookie = setCookie.split(';')[0];
+  return new Request('https://example.com/__realtime/presence', { headers: { Cookie: `theme=dark; ${cookie}` } });
+}
+
+describe("anonymous cookie", () => {
+  it("round-trips the id it was issued for", async () => {
+    const setCookie = await createAnonymousCookie(SECRET, 'anon_123', true);
+
+    expect(setCookie).toContain(`${ANONYMOUS_COOKIE.NAME}=`);
+    expect(setCookie).toContain('HttpOnly');
+    expect(setCookie).toContain('Secure');
+    expect(await readAnonymousCookie(SECRET, requestWithCookie(setCookie))).toBe('anon_123');
+  });
+
+  it("rejects a cookie whose id was changed", async () => {
+    const setCookie = await createAnonymousCookie(SECRET, 'anon_123', true);
+    const forged = setCookie.replace('anon_123', 'anon_456');
+
+    expect(await readAnonymousCookie(SECRET, requestWithCookie(forged))).toBeNull();
+  });
+
+  it("rejects a cookie signed with another secret", async () => {
+    const setCookie = await createAnonymousCookie('other-secret', 'anon_123', true);
+
+    expect(await readAnonymousCookie(SECRET, requestWithCookie(setCookie))).toBeNull();
+  });
+
+  it("ignores a malformed cookie", async () => {
+    const request = requestWithCookie(`${ANONYMOUS_COOKIE.NAME}=anon_123.!!!`);
+
+    expect(await readAnonymousCookie(SECRET, request)).toBeNull();
+  });
+});
+
+describe("resolveClaimedIdentity", () => {
+  const forward = (anonymousUserId: string | null, user?: { id: string; username: string }) =>
+    withVerifiedIdentity(new Request('https://example.com/join', {
+      // A client can't smuggle its own identity headers through the worker
+      headers: { [IDENTITY_HEADERS.USER_ID]: 'victim', [IDENTITY_HEADERS.ANONYMOUS_ID]: 'anon_victim' },
+    }), user, anonymousUserId);
+
+  it("always uses the session user when there is one", () => {
+    const request = forward(null, { id: 'user-1', username: 'alice' });
+
+    expect(resolveClaimedIdentity(request, 'user-2', 'mallory')).toEqual({ userId: 'user-1', username: 'alice' });
+  });
+
+  it("refuses a registered user id without a session", () => {
+    expect(resolveClaimedIdentity(forward('anon_mine'), 'user-1').error).toBeDefined();
+  });
+
+  it("accepts the anonymous id bound to the cookie", () => {
+    expect(resolveClaimedIdentity(forward('anon_mine'), 'anon_mine', 'guest')).toEqual({
+      userId: 'anon_mine',
+      username: 'guest',
+    });
+  });
+
+  it("refuses an anonymous id issued to another browser", () => {
+    expect(resolveClaimedIdentity(forward('anon_mine'), 'anon_victim').error).toBeDefined();
+    expect(resolveClaimedIdentity(forward(null), 'anon_victim').error).toBeDefined();
+  });
+
+  it("falls back to the cookie's id when none is claimed", () => {
+    expect(resolveClaimedIdentity(forward('anon_mine')).userId).toBe('anon_mine');
+    expect(resolveClaimedIdentity(forward(null)).userId).toBeUndefined();
+  });
+});
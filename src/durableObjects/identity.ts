@@ -0,0 +1,130 @@
+// src/durableObjects/identity.ts
+import { signValue, verifySignedValue } from "./signing";
+
+// Headers the worker uses to pass the session-verified user to the Durable Objects.
+// Anything a client sends under these names is stripped before forwarding.
+export const IDENTITY_HEADERS = {
+  USER_ID: 'X-Verified-User-Id',
+  USERNAME: 'X-Verified-Username',
+  ANONYMOUS_ID: 'X-Verified-Anonymous-Id',
+} as const;
+
+// Anonymous visitors get their id in a signed cookie, so nobody else can claim it
+export const ANONYMOUS_COOKIE = {
+  NAME: 'rw_anon',
+  MAX_AGE: 60 * 60 * 24 * 365, // 1 year, in seconds
+} as const;
+
+export interface VerifiedIdentity {
+  userId: string;
+  username: string;
+}
+
+interface IdentityUser {
+  id: string;
+  username: string;
+}
+
+/**
+ * Anonymous ids are issued by the worker (`anon_<uuid>`) or generated by the DOs (`anon_...`)
+ */
+export function isAnonymousUserId(userId: string): boolean {
+  return userId.startsWith('anon_');
+}
+
+export function generateAnonymousUserId(): string {
+  return `anon_${crypto.randomUUID()}`;
+}
+
+/**
+ * Build the Set-Cookie header that binds `userId` to this browser
+ */
+export async function createAnonymousCookie(secret: string, userId: string, secure: boolean): Promise<string> {
+  const value = await signValue(secret, userId);
+  return `${ANONYMOUS_COOKIE.NAME}=${value}; Path=/; Max-Age=${ANONYMOUS_COOKIE.MAX_AGE}; HttpOnly; SameSite=Lax${secure ? '; Secure' : ''}`;
+}
+
+/**
+ * Read the anonymous id from the request's cookie, or null if it's missing or not signed by us
+ */
+export async function readAnonymousCookie(secret: string, request: Request): Promise<string | null> {
+  const cookies = request.headers.get('Cookie') || '';
+  const prefix = `${ANONYMOUS_COOKIE.NAME}=`;
+  const cookie = cookies.split(';').map(part => part.trim()).find(part => part.startsWith(prefix));
+  if (!cookie) return null;
+
+  try {
+    const userId = await verifySignedValue(secret, cookie.slice(prefix.length));
+    return userId && isAnonymousUserId(userId) ? userId : null;
+  } catch (error) {
+    console.error('❌ Failed to verify anonymous cookie:', error);
+    return null;
+  }
+}
+
+/**
+ * Copy the request for forwarding to a Durable Object, replacing any
+ * client-supplied identity headers with the verified user or anonymous id (if any)
+ */
+export function withVerifiedIdentity(
+  request: Request,
+  user: IdentityUser | null | undefined,
+  anonymousUserId?: string | null
+): Request {
+  const headers = new Headers(request.headers);
+  headers.delete(IDENTITY_HEADERS.USER_ID);
+  headers.delete(IDENTITY_HEADERS.USERNAME);
+  headers.delete(IDENTITY_HEADERS.ANONYMOUS_ID);
+
+  if (user) {
+    headers.set(IDENTITY_HEADERS.USER_ID, user.id);
+    headers.set(IDENTITY_HEADERS.USERNAME, encodeURIComponent(user.username));
+  } else if (anonymousUserId) {
+    headers.set(IDENTITY_HEADERS.ANONYMOUS_ID, anonymousUserId);
+  }
+
+  return new Request(request, { headers });
+}
+
+/**
+ * Read the verified identity injected by the worker
+ */
+export function getVerifiedIdentity(request: Request): VerifiedIdentity | null {
+  const userId = request.headers.get(IDENTITY_HEADERS.USER_ID);
+  if (!userId) return null;
+
+  return {
+    userId,
+    username: decodeURIComponent(request.headers.get(IDENTITY_HEADERS.USERNAME) || ''),
+  };
+}
+
+/**
+ * Work out who a join/leave request is for. Logged-in users always get their
+ * verified id; otherwise only the anonymous id from this browser's cookie may be claimed.
+ */
+export function resolveClaimedIdentity(
+  request: Request,
+  claimedUserId?: string,
+  claimedUsername?: string
+): { userId?: string; username?: string; error?: string } {
+  const verified = getVerifiedIdentity(request);
+
+  if (verified) {
+    return {
+      userId: verified.userId,
+      username: verified.username || claimedUsername,
+    };
+  }
+
+  if (claimedUserId && !isAnonymousUserId(claimedUserId)) {
+    return { error: 'Cannot claim a registered user id without a session' };
+  }
+
+  const anonymousUserId = request.headers.get(IDENTITY_HEADERS.ANONYMOUS_ID);
+  if (claimedUserId && claimedUserId !== anonymousUserId) {
+    return { error: 'Cannot claim an anonymous id issued to another browser' };
+  }
+
+  return { userId: anonymousUserId || undefined, username: claimedUsername };
+}
@@ -0,0 +1,50 @@
+import { describe, expect, it } from "vitest";
+import { JOIN_TOKEN_TTL, signJoinToken, verifyJoinToken } from "./joinToken";
+
+const SECRET = 'test-secret';
+const NOW = 1_700_000_000_000;
+
+describe("join tokens", () => {
+  it("verify for the user and room they were signed for", async () => {
+    const token = await signJoinToken(SECRET, 'user-1', '/room/a', NOW);
+
+    expect(await verifyJoinToken(SECRET, token, '/room/a', NOW + 1_000)).toEqual({
+      userId: 'user-1',
+      roomKey: '/room/a',
+      exp: NOW + JOIN_TOKEN_TTL,
+    });
+  });
+
+  it("are rejected for another room", async () => {
+    const token = await signJoinToken(SECRET, 'user-1', '/room/a', NOW);
+
+    expect(await verifyJoinToken(SECRET, token, '/room/b', NOW)).toBeNull();
+  });
+
+  it("expire after JOIN_TOKEN_TTL", async () => {
+    const token = await signJoinToken(SECRET, 'user-1', '/room/a', NOW);
+
+    expect(await verifyJoinToken(SECRET, token, '/room/a', NOW + JOIN_TOKEN_TTL)).not.toBeNull();
+    expect(await verifyJoinToken(SECRET, token, '/room/a', NOW + JOIN_TOKEN_TTL + 1)).toBeNull();
+  });
+
+  it("are rejected when signed with another secret", async () => {
+    const token = await signJoinToken('other-secret', 'user-1', '/room/a', NOW);
+
+    expect(await verifyJoinToken(SECRET, token, '/room/a', NOW)).toBeNull();
+  });
+
+  it("are rejected when the claims are swapped for another user's", async () => {
+    const mine = await signJoinToken(SECRET, 'user-1', '/room/a', NOW);
+    const theirs = await signJoinToken(SECRET, 'user-2', '/room/a', NOW);
+    const forged = `${theirs.split('.')[0]}.${mine.split('.')[1]}`;
+
+    expect(await verifyJoinToken(SECRET, forged, '/room/a', NOW)).toBeNull();
+  });
+
+  it("are rejected when missing or malformed", async () => {
+    expect(await verifyJoinToken(SECRET, null, '/room/a', NOW)).toBeNull();
+    expect(await verifyJoinToken(SECRET, 'not-a-token', '/room/a', NOW)).toBeNull();
+    expect(await verifyJoinToken(SECRET, 'a.b.c', '/room/a', NOW)).toBeNull();
+  });
+});
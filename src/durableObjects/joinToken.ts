@@ -0,0 +1,54 @@
+// src/durableObjects/joinToken.ts
+import { fromBase64Url, signValue, toBase64Url, verifySignedValue } from "./signing";
+
+// Join tokens are handed out by the join endpoints and must be presented on the
+// WebSocket URL, so the DO knows who a socket belongs to from the moment it opens
+export const JOIN_TOKEN_TTL = 60000; // 60 seconds - only needs to cover join -> upgrade
+
+export interface JoinTokenClaims {
+  userId: string;
+  roomKey: string;
+  exp: number; // Expiry (ms since epoch)
+}
+
+const encoder = new TextEncoder();
+
+/**
+ * Sign a token for `userId` to connect to `roomKey`, valid for JOIN_TOKEN_TTL
+ */
+export async function signJoinToken(
+  secret: string,
+  userId: string,
+  roomKey: string,
+  now: number = Date.now()
+): Promise<string> {
+  const claims: JoinTokenClaims = { userId, roomKey, exp: now + JOIN_TOKEN_TTL };
+  return signValue(secret, toBase64Url(encoder.encode(JSON.stringify(claims))));
+}
+
+/**
+ * Verify a token's signature, expiry and room. Returns the claims, or null if invalid.
+ */
+export async function verifyJoinToken(
+  secret: string,
+  token: string | null,
+  roomKey: string,
+  now: number = Date.now()
+): Promise<JoinTokenClaims | null> {
+  if (!token) return null;
+
+  try {
+    const payload = await verifySignedValue(secret, token);
+    if (!payload) return null;
+
+    const claims = JSON.parse(new TextDecoder().decode(fromBase64Url(payload))) as JoinTokenClaims;
+    if (typeof claims.userId !== 'string' || claims.roomKey !== roomKey || claims.exp < now) {
+      return null;
+    }
+
+    return claims;
+  } catch (error) {
+    console.error('❌ Failed to verify join token:', error);
+    return null;
+  }
+}
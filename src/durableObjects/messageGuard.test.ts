@@ -0,0 +1,111 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import { MessageGuard, type MessageLimits } from "./messageGuard";
+import type { Clock } from "./alarmScheduler";
+import { FakeWebSocket, FakeWebSocketPair } from "@/test/workerRuntime";
+
+const LIMITS: MessageLimits = {
+  maxFrameBytes: 100,
+  burst: 3,
+  refillPerSecond: 1,
+  warnAfter: 2,
+  closeAfter: 4,
+  violationWindowMs: 10_000,
+};
+
+class FakeClock implements Clock {
+  constructor(public time = 1_000) {}
+  now() {
+    return this.time;
+  }
+}
+
+function createGuard() {
+  const clock = new FakeClock();
+  const guard = new MessageGuard(LIMITS, clock);
+  const pair = new FakeWebSocketPair();
+  return { clock, guard, client: pair[0], server: pair[1], ws: pair[1].asWebSocket() };
+}
+
+describe("MessageGuard", () => {
+  beforeEach(() => {
+    vi.stubGlobal('WebSocket', FakeWebSocket);
+  });
+
+  afterEach(() => {
+    vi.unstubAllGlobals();
+  });
+
+  it("admits a burst and then refills at the configured rate", () => {
+    const { clock, guard, ws } = createGuard();
+
+    expect([1, 2, 3, 4].map(() => guard.admit(ws, 'frame'))).toEqual([true, true, true, false]);
+
+    clock.time += 1_000;
+    expect(guard.admit(ws, 'frame')).toBe(true);
+    expect(guard.admit(ws, 'frame')).toBe(false);
+  });
+
+  it("drops oversized frames without spending the budget", () => {
+    const { guard, ws } = createGuard();
+
+    expect(guard.admit(ws, 'x'.repeat(101))).toBe(false);
+    expect(guard.admit(ws, new ArrayBuffer(101))).toBe(false);
+    expect(guard.admit(ws, 'x'.repeat(100))).toBe(true);
+    expect(guard.stats).toMatchObject({ accepted: 1, oversized: 2, dropped: 2 });
+  });
+
+  it("keeps a budget per socket", () => {
+    const { guard, ws } = createGuard();
+    const other = new FakeWebSocketPair()[1].asWebSocket();
+
+    for (let i = 0; i < LIMITS.burst; i++) guard.admit(ws, 'frame');
+
+    expect(guard.admit(ws, 'frame')).toBe(false);
+    expect(guard.admit(other, 'frame')).toBe(true);
+  });
+
+  it("warns once and then closes a socket that keeps misbehaving", () => {
+    const { guard, client, server, ws } = createGuard();
+    const oversized = 'x'.repeat(101);
+
+    guard.admit(ws, oversized);
+    expect(client.received).toEqual([]);
+
+    guard.admit(ws, oversized);
+    expect(client.messages()).toEqual([expect.objectContaining({ type: 'error', code: 'payload_too_large' })]);
+
+    guard.admit(ws, oversized);
+    expect(server.closeCode).toBeNull();
+
+    guard.admit(ws, oversized);
+    guard.admit(ws, oversized);
+    expect(server.closeCode).toBe(1008);
+    expect(client.messages()).toHaveLength(1);
+    expect(guard.stats).toMatchObject({ warned: 1, closed: 1, dropped: 5 });
+  });
+
+  it("counts frames the caller rejected toward escalation", () => {
+    const { guard, server, ws } = createGuard();
+
+    for (let i = 0; i < LIMITS.closeAfter; i++) guard.reject(ws);
+
+    expect(server.closeCode).toBe(1008);
+    expect(guard.stats).toMatchObject({ rejected: LIMITS.closeAfter, closed: 1 });
+  });
+
+  it("forgives violations once a socket behaves for the violation window", () => {
+    const { clock, guard, client, server, ws } = createGuard();
+    const oversized = 'x'.repeat(101);
+
+    guard.admit(ws, oversized);
+    guard.admit(ws, oversized);
+    guard.admit(ws, oversized);
+
+    clock.time += LIMITS.violationWindowMs + 1;
+    guard.admit(ws, oversized);
+    guard.admit(ws, oversized);
+
+    expect(server.closeCode).toBeNull();
+    expect(client.messages()).toHaveLength(2);
+  });
+});
@@ -0,0 +1,135 @@
+// src/durableObjects/messageGuard.ts
+import { systemClock, type Clock } from "./alarmScheduler";
+import { errorFrame, type ErrorMessage } from "@/app/shared/realtimeProtocol";
+
+export interface MessageLimits {
+  maxFrameBytes: number;
+  burst: number; // Token bucket capacity (frames)
+  refillPerSecond: number;
+  warnAfter: number; // Violations before the client gets a warning frame
+  closeAfter: number; // Violations before the socket is closed with 1008
+  violationWindowMs: number; // A socket that behaves this long starts over
+}
+
+export interface MessageCounters {
+  accepted: number;
+  dropped: number; // Every frame refused below, whatever the reason
+  oversized: number;
+  rateLimited: number;
+  rejected: number; // Frames the DO refused after parsing (invalid payloads etc.)
+  warned: number;
+  closed: number;
+}
+
+interface SocketBudget {
+  tokens: number;
+  refilledAt: number;
+  violations: number;
+  lastViolationAt: number;
+}
+
+/**
+ * Per-socket token bucket and frame size cap for inbound WebSocket messages.
+ * Each violation drops the frame; repeat offenders get one warning frame and
+ * are then disconnected. Budgets live in memory only, so they reset when the
+ * DO hibernates - which only happens for quiet rooms anyway.
+ */
+export class MessageGuard {
+  private budgets: WeakMap<WebSocket, SocketBudget> = new WeakMap();
+  private counters: MessageCounters = {
+    accepted: 0,
+    dropped: 0,
+    oversized: 0,
+    rateLimited: 0,
+    rejected: 0,
+    warned: 0,
+    closed: 0,
+  };
+
+  constructor(
+    private limits: MessageLimits,
+    private clock: Clock = systemClock
+  ) {}
+
+  /**
+   * Charge a frame to its socket. Returns false if it must be dropped
+   * (any warning or close has already been handled).
+   */
+  admit(ws: WebSocket, message: ArrayBuffer | string): boolean {
+    // UTF-16 length for text frames - close enough for a cap
+    const size = typeof message === 'string' ? message.length : message.byteLength;
+    if (size > this.limits.maxFrameBytes) {
+      this.counters.oversized++;
+      this.violation(ws, errorFrame('payload_too_large', `Frames are limited to ${this.limits.maxFrameBytes} bytes`));
+      return false;
+    }
+
+    const budget = this.getBudget(ws);
+    const now = this.clock.now();
+    budget.tokens = Math.min(
+      this.limits.burst,
+      budget.tokens + ((now - budget.refilledAt) / 1000) * this.limits.refillPerSecond
+    );
+    budget.refilledAt = now;
+
+    if (budget.tokens < 1) {
+      this.counters.rateLimited++;
+      this.violation(ws, errorFrame('rate_limited', 'Sending too fast, messages are being dropped'));
+      return false;
+    }
+
+    budget.tokens -= 1;
+    this.counters.accepted++;
+    return true;
+  }
+
+  /**
+   * Count a frame the caller refused (and already answered with an error) toward escalation
+   */
+  reject(ws: WebSocket) {
+    this.counters.rejected++;
+    this.violation(ws, null);
+  }
+
+  get stats(): MessageCounters {
+    return { ...this.counters };
+  }
+
+  private getBudget(ws: WebSocket): SocketBudget {
+    let budget = this.budgets.get(ws);
+    if (!budget) {
+      budget = { tokens: this.limits.burst, refilledAt: this.clock.now(), violations: 0, lastViolationAt: 0 };
+      this.budgets.set(ws, budget);
+    }
+    return budget;
+  }
+
+  private violation(ws: WebSocket, warning: ErrorMessage | null) {
+    const budget = this.getBudget(ws);
+    const now = this.clock.now();
+    if (now - budget.lastViolationAt > this.limits.violationWindowMs) {
+      budget.violations = 0;
+    }
+    budget.violations++;
+    budget.lastViolationAt = now;
+    this.counters.dropped++;
+
+    if (budget.violations >= this.limits.closeAfter) {
+      if (budget.violations > this.limits.closeAfter) return; // Already closing
+      console.log(`🚫 Closing socket after ${budget.violations} message violations`);
+      this.counters.closed++;
+      ws.close(1008, 'Too many invalid or excessive messages');
+      return;
+    }
+
+    if (budget.violations === this.limits.warnAfter && warning && ws.readyState === WebSocket.OPEN) {
+      console.log(`⚠️ Warning socket after ${budget.violations} message violations: ${warning.code}`);
+      this.counters.warned++;
+      try {
+        ws.send(JSON.stringify(warning));
+      } catch (error) {
+        console.error('Failed to send warning frame:', error);
+      }
+    }
+  }
+}
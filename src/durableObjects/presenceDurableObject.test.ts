@@ -0,0 +1,180 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import { PresenceDurableObject } from "./presenceDurableObject";
+import { IDENTITY_HEADERS } from "./identity";
+import {
+  applyRosterPatch,
+  type PresenceClientMessage,
+  type PresenceServerMessage,
+  type PresenceUser,
+} from "@/app/shared/realtimeProtocol";
+import { FakeDurableObjectState, FakeWebSocket, FakeWebSocketPair, UpgradeResponse } from "@/test/workerRuntime";
+
+const ROOM = '/room';
+const env = { AUTH_SECRET_KEY: 'test-secret' } as Env;
+
+async function createRoom() {
+  const state = new FakeDurableObjectState();
+  const room = new PresenceDurableObject(state.asState(), env);
+  await state.ready();
+  return room;
+}
+
+function presenceRequest(userId: string, action: 'join' | 'leave') {
+  return new Request('https://example.com/__realtime/presence', {
+    method: 'POST',
+    headers: { [IDENTITY_HEADERS.USER_ID]: userId, [IDENTITY_HEADERS.USERNAME]: userId },
+    body: JSON.stringify({ action, pathname: ROOM }),
+  });
+}
+
+/**
+ * Join over HTTP and open the presence socket with the returned token
+ */
+async function connect(room: PresenceDurableObject, userId: string): Promise<FakeWebSocket> {
+  const { token } = await (await room.fetch(presenceRequest(userId, 'join'))).json() as { token: string };
+  const response = await room.fetch(new Request(
+    `https://example.com/__realtime?key=${encodeURIComponent(ROOM)}&channel=presence&token=${encodeURIComponent(token)}`,
+    { headers: { Upgrade: 'websocket' } }
+  )) as UpgradeResponse;
+
+  expect(response.status).toBe(101);
+  return response.clientSocket!;
+}
+
+/**
+ * Deliver a frame from the client end of a socket to the room
+ */
+function send(room: PresenceDurableObject, client: FakeWebSocket, message: PresenceClientMessage) {
+  return room.webSocketMessage(client.peer!.asWebSocket(), JSON.stringify(message));
+}
+
+/**
+ * The roster a client ends up with after applying every frame it received
+ */
+function rosterOf(client: FakeWebSocket): PresenceUser[] {
+  let roster: PresenceUser[] = [];
+  for (const message of client.messages<PresenceServerMessage>()) {
+    if (message.type === 'presence_update') roster = message.data;
+    if (message.type === 'user_joined' || message.type === 'user_updated' || message.type === 'user_left') {
+      roster = applyRosterPatch(roster, message);
+    }
+  }
+  return roster;
+}
+
+function rosterSeenBy(client: FakeWebSocket): string[] {
+  return rosterOf(client).map(user => user.userId).sort();
+}
+
+describe("PresenceDurableObject broadcasts", () => {
+  beforeEach(() => {
+    vi.useFakeTimers({ toFake: ['setTimeout', 'clearTimeout', 'setInterval', 'clearInterval', 'Date'] });
+    vi.stubGlobal('WebSocket', FakeWebSocket);
+    vi.stubGlobal('WebSocketPair', FakeWebSocketPair);
+    vi.stubGlobal('Response', UpgradeResponse);
+  });
+
+  afterEach(() => {
+    vi.unstubAllGlobals();
+    vi.useRealTimers();
+  });
+
+  it("delivers a user leaving right after another joins", async () => {
+    const room = await createRoom();
+    const alice = await connect(room, 'alice');
+    await vi.advanceTimersByTimeAsync(1_000);
+    expect(rosterSeenBy(alice)).toEqual(['alice']);
+
+    // Both inside one broadcast interval
+    await room.fetch(presenceRequest('bob', 'join'));
+    await room.fetch(presenceRequest('carol', 'join'));
+    await room.fetch(presenceRequest('bob', 'leave'));
+
+    await vi.advanceTimersByTimeAsync(1_000);
+    expect(rosterSeenBy(alice)).toEqual(['alice', 'carol']);
+  });
+
+  it("coalesces a burst into at most a leading and a trailing broadcast", async () => {
+    const room = await createRoom();
+    const alice = await connect(room, 'alice');
+    await vi.advanceTimersByTimeAsync(1_000);
+    const before = alice.received.length;
+
+    for (let i = 0; i < 20; i++) {
+      await room.fetch(presenceRequest(`user-${i}`, 'join'));
+      await room.fetch(presenceRequest(`user-${i}`, 'leave'));
+    }
+    await room.fetch(presenceRequest('dave', 'join'));
+
+    await vi.advanceTimersByTimeAsync(1_000);
+    expect(rosterSeenBy(alice)).toEqual(['alice', 'dave']);
+
+    // Patches only cover the users whose state differs between broadcasts
+    const patches = alice.messages<PresenceServerMessage>().slice(before);
+    expect(patches.filter(message => message.type === 'user_joined').length).toBeLessThanOrEqual(2);
+  });
+});
+
+describe("PresenceDurableObject shared connections", () => {
+  beforeEach(() => {
+    vi.useFakeTimers({ toFake: ['setTimeout', 'clearTimeout', 'setInterval', 'clearInterval', 'Date'] });
+    vi.stubGlobal('WebSocket', FakeWebSocket);
+    vi.stubGlobal('WebSocketPair', FakeWebSocketPair);
+    vi.stubGlobal('Response', UpgradeResponse);
+  });
+
+  afterEach(() => {
+    vi.unstubAllGlobals();
+    vi.useRealTimers();
+  });
+
+  it("combines the activity and typing of the tabs sharing a connection", async () => {
+    const room = await createRoom();
+    const alice = await connect(room, 'alice');
+
+    await send(room, alice, { type: 'set_activity', tab: 'tab-a', activity: 'hidden' });
+    await send(room, alice, { type: 'set_activity', tab: 'tab-b', activity: 'active' });
+    await send(room, alice, { type: 'set_status', tab: 'tab-a', flags: { typing: true } });
+    // Another tab not typing doesn't clear it
+    await send(room, alice, { type: 'set_status', tab: 'tab-b', flags: { typing: false } });
+    await vi.advanceTimersByTimeAsync(1_000);
+
+    expect(rosterOf(alice)[0]).toMatchObject({ activity: 'active', connections: 2, flags: ['typing'] });
+
+    await send(room, alice, { type: 'tab_closed', tab: 'tab-b' });
+    await vi.advanceTimersByTimeAsync(1_000);
+
+    expect(rosterOf(alice)[0]).toMatchObject({ activity: 'hidden', connections: 1, flags: ['typing'] });
+
+    await send(room, alice, { type: 'tab_closed', tab: 'tab-a' });
+    await vi.advanceTimersByTimeAsync(1_000);
+
+    expect(rosterOf(alice)[0].flags).toBeUndefined();
+  });
+
+  it("keeps a user whose tab left while their connection is still open", async () => {
+    const room = await createRoom();
+    const alice = await connect(room, 'alice');
+    const bob = await connect(room, 'bob');
+
+    await room.fetch(presenceRequest('alice', 'leave'));
+    await vi.advanceTimersByTimeAsync(1_000);
+    expect(rosterSeenBy(bob)).toEqual(['alice', 'bob']);
+
+    // Handing over to a new leading tab: the old connection closes after the new one opens
+    const handover = await connect(room, 'alice');
+    const server = alice.peer!;
+    server.close(1000);
+    await room.webSocketClose(server.asWebSocket(), 1000, 'Closed', true);
+    await vi.advanceTimersByTimeAsync(1_000);
+    expect(rosterSeenBy(bob)).toEqual(['alice', 'bob']);
+
+    handover.peer!.close(1000);
+    await room.webSocketClose(handover.peer!.asWebSocket(), 1000, 'Closed', true);
+    // Gone once the reconnect grace period lapses
+    await vi.advanceTimersByTimeAsync(15_000);
+    await room.alarm();
+    await vi.advanceTimersByTimeAsync(1_000);
+    expect(rosterSeenBy(bob)).toEqual(['bob']);
+  });
+});
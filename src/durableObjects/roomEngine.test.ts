@@ -0,0 +1,151 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import { RoomEngine, type RoomContext, type RoomEngineConfig, type RosterFeature } from "./roomEngine";
+import { signJoinToken } from "./joinToken";
+import { FakeDurableObjectState, FakeWebSocket, FakeWebSocketPair, UpgradeResponse } from "@/test/workerRuntime";
+
+const ROOM = '/room';
+const SECRET = 'test-secret';
+const env = { AUTH_SECRET_KEY: SECRET } as Env;
+
+type TestMessage = { type: string };
+
+/**
+ * A roster that takes `ping` messages and has something to broadcast after each
+ */
+class PingRoster implements RosterFeature<TestMessage> {
+  readonly name = 'ping';
+  readonly messageTypes = ['ping'];
+  pings = 0;
+  private changed = false;
+
+  constructor(private room: RoomContext<TestMessage>) {}
+
+  handleMessage() {
+    this.pings++;
+    this.changed = true;
+    this.room.requestBroadcast();
+  }
+
+  flush() {
+    if (!this.changed) return null;
+
+    this.changed = false;
+    const frame = JSON.stringify({ type: 'pinged' });
+    return { json: [frame], binary: [frame] };
+  }
+
+  getMember() {
+    return null;
+  }
+
+  touch() {}
+
+  occupancy() {
+    return 0;
+  }
+}
+
+async function createRoom(config: Partial<RoomEngineConfig<TestMessage, TestMessage>> = {}) {
+  let roster: PingRoster | null = null;
+  const state = new FakeDurableObjectState();
+  const room = new RoomEngine<TestMessage, TestMessage>(state.asState(), env, {
+    type: 'gamesync',
+    socketTag: 'test',
+    healthPath: '/__test/health',
+    acceptsUpgrade: () => true,
+    maxConnections: 10,
+    messageLimits: {
+      maxFrameBytes: 1024,
+      burst: 100,
+      refillPerSecond: 100,
+      warnAfter: 10,
+      closeAfter: 100,
+      violationWindowMs: 10000,
+    },
+    broadcastMode: 'coalesced',
+    broadcastInterval: 100,
+    parse: (raw) => ({ ok: true, message: JSON.parse(raw) as TestMessage }),
+    roster: (context) => (roster = new PingRoster(context)),
+    features: [],
+    ...config,
+  });
+  await state.ready();
+  return { room, roster: roster! };
+}
+
+async function connect(room: RoomEngine<TestMessage, TestMessage>, userId: string): Promise<FakeWebSocket> {
+  const token = await signJoinToken(SECRET, userId, ROOM);
+  const response = await room.fetch(new Request(
+    `https://example.com/__test/ws?key=${encodeURIComponent(ROOM)}&token=${encodeURIComponent(token)}`,
+    { headers: { Upgrade: 'websocket' } }
+  )) as UpgradeResponse;
+
+  expect(response.status).toBe(101);
+  return response.clientSocket!;
+}
+
+function send(room: RoomEngine<TestMessage, TestMessage>, client: FakeWebSocket, message: TestMessage) {
+  return room.webSocketMessage(client.peer!.asWebSocket(), JSON.stringify(message));
+}
+
+describe("RoomEngine", () => {
+  beforeEach(() => {
+    vi.useFakeTimers({ toFake: ['setTimeout', 'clearTimeout', 'setInterval', 'clearInterval', 'Date'] });
+    vi.stubGlobal('WebSocket', FakeWebSocket);
+    vi.stubGlobal('WebSocketPair', FakeWebSocketPair);
+    vi.stubGlobal('Response', UpgradeResponse);
+  });
+
+  afterEach(() => {
+    vi.unstubAllGlobals();
+    vi.useRealTimers();
+  });
+
+  it("hands a message to the feature that declared its type", async () => {
+    const { room, roster } = await createRoom();
+    const client = await connect(room, 'alice');
+
+    await send(room, client, { type: 'ping' });
+
+    expect(roster.pings).toBe(1);
+  });
+
+  it("answers a type no feature enables with unknown_message_type", async () => {
+    const { room } = await createRoom();
+    const client = await connect(room, 'alice');
+
+    await send(room, client, { type: 'chat_message' });
+
+    expect(client.messages()).toContainEqual(expect.objectContaining({ type: 'error', code: 'unknown_message_type', ref: 'chat_message' }));
+  });
+
+  it("accepts an upgrade past capacity and closes it with 1008", async () => {
+    const { room } = await createRoom({ maxConnections: 1 });
+    const first = await connect(room, 'alice');
+    const second = await connect(room, 'bob');
+
+    expect(first.peer!.closeCode).toBeNull();
+    expect(second.peer!.closeCode).toBe(1008);
+  });
+
+  it("sends the first change at once in coalesced mode", async () => {
+    const { room } = await createRoom({ broadcastMode: 'coalesced' });
+    const client = await connect(room, 'alice');
+
+    await send(room, client, { type: 'ping' });
+
+    expect(client.messages()).toEqual([{ type: 'pinged' }]);
+  });
+
+  it("holds changes for the next tick in fixed-rate mode", async () => {
+    const { room } = await createRoom({ broadcastMode: 'fixed_rate', broadcastInterval: 50 });
+    const client = await connect(room, 'alice');
+
+    await send(room, client, { type: 'ping' });
+    await send(room, client, { type: 'ping' });
+    expect(client.messages()).toEqual([]);
+
+    vi.advanceTimersByTime(50);
+    expect(client.messages()).toEqual([{ type: 'pinged' }]);
+  });
+});
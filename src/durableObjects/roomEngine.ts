@@ -0,0 +1,466 @@
+// src/durableObjects/roomEngine.ts
+import { RealtimeDurableObject } from "rwsdk/realtime/durableObject";
+import { AlarmScheduler, type Deadline } from "./alarmScheduler";
+import { signJoinToken, verifyJoinToken } from "./joinToken";
+import { getRoomCapacity, getRoomVisibility } from "./roomSettings";
+import { RoomReporter } from "./roomReporter";
+import { CoalescingBroadcaster, FixedRateTicker } from "./coalescingBroadcaster";
+import { MessageGuard, type MessageLimits } from "./messageGuard";
+import { UsernameRegistry } from "./usernameRegistry";
+import type { RoomType } from "./roomRegistryDurableObject";
+import {
+  negotiateProtocolVersion,
+  errorFrame,
+  type ClientHelloMessage,
+  type ErrorMessage,
+  type ParseResult,
+  type ProtocolCapability,
+  type ServerHelloMessage,
+} from "@/app/shared/realtimeProtocol";
+
+export type RoomMessage = { type: string };
+
+export type RoomFrame = string | ArrayBuffer;
+
+// One broadcast's frames, by which kind of socket receives them
+export interface TickFrames {
+  json: RoomFrame[];
+  binary: RoomFrame[]; // Sockets that negotiated `binary_cursor`
+}
+
+// Serialized onto each room socket so it survives hibernation - features add their own fields
+export interface RoomSocketAttachment {
+  userId: string | null; // From the join token, bound for the socket's whole lifetime
+  connectedAt: number;
+  protocolVersion?: number; // Set once the client's hello has been answered
+  binaryCursors?: boolean; // Negotiated `binary_cursor` capability
+}
+
+export interface RoomMember {
+  userId: string;
+  username: string;
+}
+
+/**
+ * What the engine shares with its features
+ */
+export interface RoomContext<S extends RoomMessage> {
+  readonly type: RoomType;
+  readonly storage: DurableObjectStorage;
+  readonly scheduler: AlarmScheduler;
+  readonly usernames: UsernameRegistry;
+  readonly maxConnections: number; // The room type's default - a room's settings may lower it
+  now(): number;
+  // Join requests name the room for the directory, like socket upgrades do
+  identifyRoom(key: string, request: Request): void;
+  signToken(userId: string, roomKey: string): Promise<string>;
+  getSockets(): WebSocket[];
+  getAttachment<A extends object = {}>(ws: WebSocket): RoomSocketAttachment & Partial<A>;
+  updateAttachment<A extends object = {}>(ws: WebSocket, changes: Partial<RoomSocketAttachment & A>): void;
+  // Open sockets by user, leaving out `closing` (one whose close is being handled)
+  getConnectionsByUser(closing?: WebSocket): Map<string, WebSocket[]>;
+  // The roster's member behind a socket, from its join token - never from a message
+  getMember(ws: WebSocket): RoomMember | null;
+  // A sign of life from the member
+  touch(member: RoomMember): void;
+  // The roster dropped someone - every feature forgets them
+  memberLeft(userId: string): void;
+  // A member's wire shape, merged from every feature
+  describeMember(userId: string, binaryCursors: boolean): object;
+  // Extra fields for the roster's snapshot and join response
+  describeSnapshot(): object;
+  describeJoin(userId: string): object;
+  send(ws: WebSocket, message: S): void;
+  sendSnapshot(ws: WebSocket): void;
+  // Count a bad message towards the socket's violation limit
+  reject(ws: WebSocket): void;
+  // Request a broadcast - changes are collected and sent together
+  requestBroadcast(): void;
+}
+
+/**
+ * A piece of room behaviour. Every hook is optional; the engine calls them in
+ * configuration order, roster first.
+ */
+export interface RoomFeature<C extends RoomMessage> {
+  readonly name: string;
+  readonly messageTypes?: readonly C['type'][];
+  readonly deadlineKinds?: readonly string[];
+  readonly capabilities?: readonly ProtocolCapability[];
+
+  // Restore state before any request is delivered
+  load?(): Promise<void>;
+  // An HTTP request, or null if it isn't this feature's
+  fetch?(request: Request, url: URL): Promise<Response> | null;
+  onConnect?(ws: WebSocket, userId: string): void;
+  onHello?(ws: WebSocket, capabilities: ProtocolCapability[]): void;
+  // A binary frame - true if it was handled
+  handleBinary?(ws: WebSocket, data: ArrayBuffer): boolean;
+  handleMessage?(ws: WebSocket, message: C): void | Promise<void>;
+  onSocketClosed?(ws: WebSocket, userId: string): void;
+  onMemberLeft?(userId: string): void;
+  handleDeadline?(deadline: Deadline): void | Promise<void>;
+  describeMember?(userId: string, binaryCursors: boolean): object;
+  describeSnapshot?(): object;
+  describeJoin?(userId: string): object;
+  sendSnapshot?(ws: WebSocket): void;
+  // This broadcast's frames for what changed since the last one
+  flush?(now: number): Partial<TickFrames> | null;
+}
+
+/**
+ * The feature that decides who is in the room. Every room has exactly one.
+ */
+export interface RosterFeature<C extends RoomMessage> extends RoomFeature<C> {
+  getMember(ws: WebSocket): RoomMember | null;
+  touch(member: RoomMember): void;
+  occupancy(): number; // For the room directory
+}
+
+export type FeatureFactory<C extends RoomMessage, S extends RoomMessage, F = RoomFeature<C>> = (room: RoomContext<S>) => F;
+
+export interface RoomEngineConfig<C extends RoomMessage, S extends RoomMessage> {
+  type: RoomType;
+  socketTag: string; // Hibernation API tag - untagged sockets belong to the framework realtime client
+  healthPath: string;
+  acceptsUpgrade: (url: URL) => boolean;
+  maxConnections: number;
+  messageLimits: MessageLimits;
+  // 'coalesced': the first change goes out at once and later ones inside the interval trail it.
+  // 'fixed_rate': changes go out on a steady tick of this interval while there are any.
+  broadcastMode: 'coalesced' | 'fixed_rate';
+  broadcastInterval: number;
+  parse: (raw: string) => ParseResult<C>;
+  roster: FeatureFactory<C, S, RosterFeature<C>>;
+  features: FeatureFactory<C, S>[];
+}
+
+/**
+ * The core both realtime rooms are built on: join tokens, socket bookkeeping
+ * across hibernation, protocol negotiation, message limits, deadlines and
+ * the broadcast loop. What a room actually does comes from its features.
+ */
+export class RoomEngine<C extends RoomMessage, S extends RoomMessage> extends RealtimeDurableObject {
+  private authSecret: string;
+  private reporter: RoomReporter;
+  private guard: MessageGuard;
+  private scheduler: AlarmScheduler;
+  private broadcaster: CoalescingBroadcaster | FixedRateTicker;
+  private usernames: UsernameRegistry;
+  private room: RoomContext<S>;
+  private roster: RosterFeature<C>;
+  private features: RoomFeature<C>[];
+  private messageHandlers: Map<string, RoomFeature<C>> = new Map();
+  private deadlineHandlers: Map<string, RoomFeature<C>> = new Map();
+  private capabilities: ProtocolCapability[];
+
+  constructor(state: DurableObjectState, env: Env, private config: RoomEngineConfig<C, S>) {
+    super(state, env);
+
+    this.authSecret = env.AUTH_SECRET_KEY;
+    this.reporter = new RoomReporter(this.ctx.storage, env.ROOM_REGISTRY_DURABLE_OBJECT, config.type);
+    this.guard = new MessageGuard(config.messageLimits);
+    this.scheduler = new AlarmScheduler(this.ctx.storage);
+    this.broadcaster = config.broadcastMode === 'fixed_rate'
+      ? new FixedRateTicker(() => this.broadcastTick(), config.broadcastInterval)
+      : new CoalescingBroadcaster(() => this.broadcastTick(), config.broadcastInterval);
+    this.usernames = new UsernameRegistry(this.ctx.storage);
+
+    this.room = this.createContext();
+    this.roster = config.roster(this.room);
+    this.features = [this.roster, ...config.features.map(create => create(this.room))];
+
+    for (const feature of this.features) {
+      for (const type of feature.messageTypes ?? []) this.messageHandlers.set(type, feature);
+      for (const kind of feature.deadlineKinds ?? []) this.deadlineHandlers.set(kind, feature);
+    }
+    this.capabilities = [...new Set(this.features.flatMap(feature => feature.capabilities ?? []))];
+
+    console.log(`⚙️ ${config.type} room initialized with features:`, this.features.map(feature => feature.name));
+
+    // Rehydrate persisted state before any request is delivered
+    this.ctx.blockConcurrencyWhile(async () => {
+      await this.scheduler.load();
+      await this.reporter.load();
+      await this.usernames.load();
+      for (const feature of this.features) {
+        await feature.load?.();
+      }
+    });
+  }
+
+  private createContext(): RoomContext<S> {
+    return {
+      type: this.config.type,
+      storage: this.ctx.storage,
+      scheduler: this.scheduler,
+      usernames: this.usernames,
+      maxConnections: this.config.maxConnections,
+      now: () => this.scheduler.now(),
+      identifyRoom: (key, request) => this.reporter.identify(key, getRoomVisibility(request)),
+      signToken: (userId, roomKey) => signJoinToken(this.authSecret, userId, roomKey),
+      getSockets: () => this.getRoomSockets(),
+      getAttachment: (ws) => this.getAttachment(ws),
+      updateAttachment: (ws, changes) => ws.serializeAttachment({ ...this.getAttachment(ws), ...changes }),
+      getConnectionsByUser: (closing) => this.getConnectionsByUser(closing),
+      getMember: (ws) => this.roster.getMember(ws),
+      touch: (member) => this.roster.touch(member),
+      memberLeft: (userId) => {
+        for (const feature of this.features) feature.onMemberLeft?.(userId);
+      },
+      describeMember: (userId, binaryCursors) =>
+        Object.assign({}, ...this.features.map(feature => feature.describeMember?.(userId, binaryCursors))),
+      describeSnapshot: () => Object.assign({}, ...this.features.map(feature => feature.describeSnapshot?.())),
+      describeJoin: (userId) => Object.assign({}, ...this.features.map(feature => feature.describeJoin?.(userId))),
+      send: (ws, message) => this.sendMessage(ws, message),
+      sendSnapshot: (ws) => {
+        for (const feature of this.features) feature.sendSnapshot?.(ws);
+      },
+      reject: (ws) => this.guard.reject(ws),
+      requestBroadcast: () => this.broadcaster.schedule(),
+    };
+  }
+
+  async alarm(): Promise<void> {
+    await this.scheduler.runDue(deadline => this.deadlineHandlers.get(deadline.kind)?.handleDeadline?.(deadline));
+
+    if (super.alarm) {
+      await super.alarm();
+    }
+  }
+
+  async fetch(request: Request): Promise<Response> {
+    const url = new URL(request.url);
+
+    if (url.pathname === this.config.healthPath) {
+      return this.handleHealth();
+    }
+
+    for (const feature of this.features) {
+      const response = feature.fetch?.(request, url);
+      if (response) return response;
+    }
+
+    // Handle room WebSocket upgrades ourselves so the socket can hibernate
+    if (request.headers.get("Upgrade") === "websocket" && this.config.acceptsUpgrade(url)) {
+      return this.handleRoomWebSocket(request, url);
+    }
+
+    // Everything else (including framework realtime sockets) goes to the parent
+    return super.fetch(request);
+  }
+
+  private async handleRoomWebSocket(request: Request, url: URL): Promise<Response> {
+    const { 0: client, 1: server } = new WebSocketPair();
+    const maxConnections = getRoomCapacity(request, this.config.maxConnections);
+    const atCapacity = this.getRoomSockets().length >= maxConnections;
+    const roomKey = url.searchParams.get('key') || '/default';
+    const claims = await verifyJoinToken(this.authSecret, url.searchParams.get('token'), roomKey);
+    this.reporter.identify(roomKey, getRoomVisibility(request));
+
+    // Accepted either way, so the client sees why in the close frame
+    this.ctx.acceptWebSocket(server, [this.config.socketTag]);
+    const attachment: RoomSocketAttachment = {
+      userId: claims?.userId ?? null,
+      connectedAt: Date.now()
+    };
+    server.serializeAttachment(attachment);
+
+    if (!claims) {
+      console.log(`🚫 ${this.config.type} WebSocket rejected: invalid or expired join token`);
+      server.close(1008, 'Invalid or expired join token');
+      return new Response(null, { status: 101, webSocket: client });
+    }
+
+    if (atCapacity) {
+      console.log(`⚠️ ${this.config.type} room at capacity (${maxConnections})`);
+      server.close(1008, 'Room at capacity');
+      return new Response(null, { status: 101, webSocket: client });
+    }
+
+    for (const feature of this.features) {
+      feature.onConnect?.(server, claims.userId);
+    }
+
+    console.log(`🔌 ${this.config.type} WebSocket accepted for user: ${claims.userId}`);
+    this.room.sendSnapshot(server);
+
+    return new Response(null, { status: 101, webSocket: client });
+  }
+
+  /**
+   * Room-level health: connections and inbound message counters since the DO was loaded
+   */
+  private handleHealth(): Response {
+    return new Response(JSON.stringify({
+      connections: this.getRoomSockets().length,
+      messages: this.guard.stats
+    }), {
+      headers: { 'Content-Type': 'application/json' }
+    });
+  }
+
+  private getRoomSockets(): WebSocket[] {
+    return this.ctx.getWebSockets(this.config.socketTag);
+  }
+
+  private isRoomSocket(ws: WebSocket): boolean {
+    return this.ctx.getTags(ws).includes(this.config.socketTag);
+  }
+
+  private getAttachment<A extends object>(ws: WebSocket): RoomSocketAttachment & Partial<A> {
+    return ws.deserializeAttachment() as RoomSocketAttachment & Partial<A>;
+  }
+
+  private getConnectionsByUser(closing?: WebSocket): Map<string, WebSocket[]> {
+    const connections = new Map<string, WebSocket[]>();
+    for (const ws of this.getRoomSockets()) {
+      if (ws === closing || ws.readyState !== WebSocket.OPEN) continue;
+
+      const { userId } = this.getAttachment(ws);
+      if (!userId) continue;
+
+      const sockets = connections.get(userId) ?? [];
+      sockets.push(ws);
+      connections.set(userId, sockets);
+    }
+    return connections;
+  }
+
+  private sendMessage(ws: WebSocket, message: S | ServerHelloMessage | ErrorMessage) {
+    if (ws.readyState !== WebSocket.OPEN) return;
+
+    try {
+      ws.send(JSON.stringify(message));
+    } catch (error) {
+      console.error(`Failed to send ${message.type} message:`, error);
+    }
+  }
+
+  async webSocketMessage(ws: WebSocket, message: ArrayBuffer | string): Promise<void> {
+    if (!this.isRoomSocket(ws)) {
+      return await super.webSocketMessage(ws, message as ArrayBuffer);
+    }
+
+    if (!this.guard.admit(ws, message)) return;
+
+    let messageString: string;
+
+    if (typeof message === 'string') {
+      messageString = message;
+    } else if (message instanceof ArrayBuffer) {
+      // Features with a binary encoding (negotiated cursors) get the first look
+      if (this.features.some(feature => feature.handleBinary?.(ws, message))) return;
+      messageString = new TextDecoder().decode(message);
+    } else {
+      return;
+    }
+
+    const parsed = this.config.parse(messageString);
+    if (!parsed.ok) {
+      console.log(`⚠️ Rejected ${this.config.type} frame: ${parsed.error.message}`);
+      this.sendMessage(ws, parsed.error);
+      this.guard.reject(ws);
+      return;
+    }
+
+    const data = parsed.message;
+    if (data.type === 'hello') {
+      this.handleHello(ws, data as unknown as ClientHelloMessage);
+      return;
+    }
+
+    const feature = this.messageHandlers.get(data.type);
+    if (!feature?.handleMessage) {
+      this.sendMessage(ws, errorFrame('unknown_message_type', `"${data.type}" is not enabled in this room`, data.type));
+      return;
+    }
+
+    await feature.handleMessage(ws, data);
+  }
+
+  private handleHello(ws: WebSocket, hello: ClientHelloMessage) {
+    const version = negotiateProtocolVersion(hello.versions);
+    if (version === null) {
+      this.sendMessage(ws, errorFrame('unsupported_version', `No supported protocol version in [${hello.versions.join(', ')}]`, hello.type));
+      ws.close(1002, 'Unsupported protocol version');
+      return;
+    }
+
+    const capabilities = this.capabilities.filter(capability => hello.capabilities?.includes(capability));
+    this.room.updateAttachment(ws, { protocolVersion: version, binaryCursors: capabilities.includes('binary_cursor') });
+    this.sendMessage(ws, { type: 'hello', version, capabilities });
+
+    for (const feature of this.features) {
+      feature.onHello?.(ws, capabilities);
+    }
+  }
+
+  async webSocketClose(ws: WebSocket, code: number, reason: string, wasClean: boolean): Promise<void> {
+    if (!this.isRoomSocket(ws)) {
+      if (super.webSocketClose) {
+        await super.webSocketClose(ws, code, reason, wasClean);
+      }
+      return;
+    }
+
+    const { userId } = this.getAttachment(ws);
+    if (userId) {
+      console.log(`🔌 ${this.config.type} WebSocket closed for user: ${userId}`);
+      this.handleSocketClosed(ws, userId);
+    }
+  }
+
+  async webSocketError(ws: WebSocket, error: unknown): Promise<void> {
+    if (!this.isRoomSocket(ws)) {
+      if (super.webSocketError) {
+        await super.webSocketError(ws, error);
+      }
+      return;
+    }
+
+    const { userId } = this.getAttachment(ws);
+    if (userId) {
+      console.log(`❌ ${this.config.type} WebSocket error for user: ${userId}`);
+      this.handleSocketClosed(ws, userId);
+    }
+  }
+
+  private handleSocketClosed(ws: WebSocket, userId: string) {
+    for (const feature of this.features) {
+      feature.onSocketClosed?.(ws, userId);
+    }
+  }
+
+  /**
+   * Send everything that changed since the last broadcast - called by the
+   * broadcaster, use `requestBroadcast()` to request one
+   */
+  private broadcastTick() {
+    // Keep the room directory's occupancy current (only sends when the count changes)
+    this.reporter.report(this.roster.occupancy());
+
+    const now = this.scheduler.now();
+    const frames: TickFrames = { json: [], binary: [] };
+    for (const feature of this.features) {
+      const output = feature.flush?.(now);
+      frames.json.push(...(output?.json ?? []));
+      frames.binary.push(...(output?.binary ?? []));
+    }
+    if (frames.json.length === 0 && frames.binary.length === 0) return;
+
+    for (const ws of this.getRoomSockets()) {
+      if (ws.readyState !== WebSocket.OPEN) continue;
+
+      try {
+        const payloads = this.getAttachment(ws).binaryCursors ? frames.binary : frames.json;
+        for (const payload of payloads) {
+          ws.send(payload);
+        }
+      } catch (error) {
+        console.error(`Failed to send ${this.config.type} broadcast:`, error);
+      }
+    }
+  }
+}
+
@@ -0,0 +1,128 @@
+// src/durableObjects/roomRegistryDurableObject.ts
+import { DurableObject } from "cloudflare:workers";
+
+export type RoomType = 'presence' | 'gamesync';
+
+export interface RoomReport {
+  type: RoomType;
+  key: string;
+  visibility: string;
+  userCount: number;
+}
+
+export interface RoomListing {
+  type: RoomType;
+  key: string;
+  userCount: number;
+  createdAt: number;
+  lastActivity: number;
+}
+
+export type RoomSortField = 'userCount' | 'createdAt' | 'lastActivity';
+
+export interface ListRoomsOptions {
+  type: RoomType;
+  sortBy?: RoomSortField;
+  order?: 'asc' | 'desc';
+  limit?: number;
+  offset?: number;
+}
+
+const REGISTRY_SETTINGS = {
+  DEFAULT_PAGE_SIZE: 20,
+  MAX_PAGE_SIZE: 100,
+} as const;
+
+// Whitelisted ORDER BY columns
+const SORT_COLUMNS: Record<RoomSortField, string> = {
+  userCount: 'user_count',
+  createdAt: 'created_at',
+  lastActivity: 'last_activity',
+};
+
+// Single global instance - every presence and gamesync room reports its occupancy here
+export const ROOM_REGISTRY_NAME = 'global';
+
+export class RoomRegistryDurableObject extends DurableObject {
+  constructor(state: DurableObjectState, env: Env) {
+    super(state, env);
+
+    this.ctx.storage.sql.exec(`
+      CREATE TABLE IF NOT EXISTS rooms (
+        type TEXT NOT NULL,
+        key TEXT NOT NULL,
+        visibility TEXT NOT NULL DEFAULT 'public',
+        user_count INTEGER NOT NULL,
+        created_at INTEGER NOT NULL,
+        last_activity INTEGER NOT NULL,
+        PRIMARY KEY (type, key)
+      )
+    `);
+  }
+
+  async reportRoom({ type, key, visibility, userCount }: RoomReport): Promise<void> {
+    const now = Date.now();
+
+    // Empty rooms drop out of the directory
+    if (userCount <= 0) {
+      this.ctx.storage.sql.exec('DELETE FROM rooms WHERE type = ? AND key = ?', type, key);
+      return;
+    }
+
+    this.ctx.storage.sql.exec(
+      `INSERT INTO rooms (type, key, visibility, user_count, created_at, last_activity)
+       VALUES (?, ?, ?, ?, ?, ?)
+       ON CONFLICT (type, key) DO UPDATE SET
+         visibility = excluded.visibility,
+         user_count = excluded.user_count,
+         last_activity = excluded.last_activity`,
+      type, key, visibility, userCount, now, now
+    );
+  }
+
+  async listRooms({
+    type,
+    sortBy = 'lastActivity',
+    order = 'desc',
+    limit = REGISTRY_SETTINGS.DEFAULT_PAGE_SIZE,
+    offset = 0,
+  }: ListRoomsOptions): Promise<{ rooms: RoomListing[]; total: number; limit: number; offset: number }> {
+    const column = SORT_COLUMNS[sortBy] ?? SORT_COLUMNS.lastActivity;
+    const direction = order === 'asc' ? 'ASC' : 'DESC';
+    const pageSize = Math.min(Math.max(1, Math.floor(limit)), REGISTRY_SETTINGS.MAX_PAGE_SIZE);
+    const start = Math.max(0, Math.floor(offset));
+
+    // Only public rooms are listed - private and invite-only rooms stay out of the directory
+    const rooms = this.ctx.storage.sql.exec<{
+      type: RoomType;
+      key: string;
+      user_count: number;
+      created_at: number;
+      last_activity: number;
+    }>(
+      `SELECT type, key, user_count, created_at, last_activity FROM rooms
+       WHERE type = ? AND visibility = 'public'
+       ORDER BY ${column} ${direction}, key ASC
+       LIMIT ? OFFSET ?`,
+      type, pageSize, start
+    ).toArray();
+
+    const { total } = this.ctx.storage.sql.exec<{ total: number }>(
+      `SELECT COUNT(*) AS total FROM rooms WHERE type = ? AND visibility = 'public'`,
+      type
+    ).one();
+
+    return {
+      rooms: rooms.map(row => ({
+        type: row.type,
+        key: row.key,
+        userCount: row.user_count,
+        createdAt: row.created_at,
+        lastActivity: row.last_activity,
+      })),
+      total,
+      limit: pageSize,
+      offset: start,
+    };
+  }
+}
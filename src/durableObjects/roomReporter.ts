@@ -0,0 +1,55 @@
+// src/durableObjects/roomReporter.ts
+import { ROOM_REGISTRY_NAME, type RoomRegistryDurableObject, type RoomType } from "./roomRegistryDurableObject";
+
+interface ReportedRoom {
+  key: string;
+  visibility: string;
+}
+
+const REPORTED_ROOM_STORAGE_KEY = 'registry:room';
+
+/**
+ * Reports a room's occupancy to the RoomRegistryDurableObject.
+ * A DO only learns its room key from incoming requests, so the key is
+ * remembered in storage once seen. Reports are sent only when the count changes.
+ */
+export class RoomReporter {
+  private room: ReportedRoom | null = null;
+  private lastReportedCount: number | null = null;
+
+  constructor(
+    private storage: DurableObjectStorage,
+    private registry: DurableObjectNamespace<RoomRegistryDurableObject> | undefined,
+    private type: RoomType
+  ) {}
+
+  async load() {
+    this.room = (await this.storage.get<ReportedRoom>(REPORTED_ROOM_STORAGE_KEY)) ?? null;
+  }
+
+  identify(key: string, visibility: string) {
+    if (this.room?.key === key && this.room.visibility === visibility) return;
+
+    this.room = { key, visibility };
+    this.lastReportedCount = null;
+    this.storage.put(REPORTED_ROOM_STORAGE_KEY, this.room);
+  }
+
+  async report(userCount: number): Promise<void> {
+    if (!this.room || !this.registry || userCount === this.lastReportedCount) return;
+    this.lastReportedCount = userCount;
+
+    try {
+      const registry = this.registry.get(this.registry.idFromName(ROOM_REGISTRY_NAME));
+      await registry.reportRoom({
+        type: this.type,
+        key: this.room.key,
+        visibility: this.room.visibility,
+        userCount
+      });
+    } catch (error) {
+      console.error(`❌ Failed to report ${this.type} room ${this.room.key} to registry:`, error);
+      this.lastReportedCount = null;
+    }
+  }
+}
@@ -0,0 +1,57 @@
+// src/durableObjects/roomSettings.ts
+import type { RoomType } from "./roomRegistryDurableObject";
+
+// Per-room settings resolved by the worker (from the Room table) and passed to the DOs
+export const ROOM_CAPACITY_HEADER = 'X-Room-Max-Capacity';
+export const ROOM_VISIBILITY_HEADER = 'X-Room-Visibility';
+
+interface RoomSettings {
+  maxCapacity: number | null;
+  visibility: string;
+}
+
+// Connection limits per room type - a room's own capacity can only lower them
+export const MAX_ROOM_CONNECTIONS: Record<RoomType, number> = {
+  presence: 100,
+  gamesync: 50,
+};
+
+// The largest capacity a room may be given - each room type still caps it at its own limit
+export const MAX_ROOM_CAPACITY = Math.max(...Object.values(MAX_ROOM_CONNECTIONS));
+
+/**
+ * Copy the request with the room's settings, dropping any client-supplied values
+ */
+export function withRoomSettings(request: Request, { maxCapacity, visibility }: RoomSettings): Request {
+  const headers = new Headers(request.headers);
+  headers.delete(ROOM_CAPACITY_HEADER);
+  headers.set(ROOM_VISIBILITY_HEADER, visibility);
+
+  if (maxCapacity) {
+    headers.set(ROOM_CAPACITY_HEADER, String(maxCapacity));
+  }
+
+  return new Request(request, { headers });
+}
+
+/**
+ * Whether `value` can be stored as a room's capacity
+ */
+export function isValidRoomCapacity(value: unknown): value is number {
+  return Number.isInteger(value) && (value as number) > 0 && (value as number) <= MAX_ROOM_CAPACITY;
+}
+
+/**
+ * Connection limit for this room - the override if one was forwarded, never above the DO's own limit
+ */
+export function getRoomCapacity(request: Request, maxConnections: number): number {
+  const override = Number(request.headers.get(ROOM_CAPACITY_HEADER));
+  return Number.isInteger(override) && override > 0 ? Math.min(override, maxConnections) : maxConnections;
+}
+
+/**
+ * Room visibility as resolved by the worker - only public rooms are listed in the directory
+ */
+export function getRoomVisibility(request: Request): string {
+  return request.headers.get(ROOM_VISIBILITY_HEADER) || 'public';
+}
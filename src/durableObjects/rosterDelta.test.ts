@@ -0,0 +1,115 @@
+import { describe, expect, it, vi } from "vitest";
+import { RosterDeltaTracker } from "./rosterDelta";
+import { applyRosterPatch, checkRosterSeq, type RosterPatchMessage } from "@/app/shared/realtimeProtocol";
+
+interface TestUser {
+  userId: string;
+  username: string;
+}
+
+const alice: TestUser = { userId: 'alice', username: 'Alice' };
+const bob: TestUser = { userId: 'bob', username: 'Bob' };
+
+/**
+ * Apply patches the way the hooks do, asking for a snapshot on a gap
+ */
+function applyPatches(roster: TestUser[], lastSeq: number | null, patches: RosterPatchMessage<TestUser>[]) {
+  for (const patch of patches) {
+    const fit = checkRosterSeq(lastSeq, patch.seq);
+    if (fit === 'gap') return { roster, lastSeq, resync: true };
+    if (fit === 'skip') continue;
+
+    roster = applyRosterPatch(roster, patch);
+    lastSeq = patch.seq;
+  }
+  return { roster, lastSeq, resync: false };
+}
+
+describe("RosterDeltaTracker", () => {
+  it("emits joins, updates and leaves with consecutive sequence ids", () => {
+    const tracker = new RosterDeltaTracker<TestUser>();
+    const start = tracker.currentSeq;
+
+    const joined = tracker.diff([alice, bob]);
+    const updated = tracker.diff([{ ...alice, username: 'Alicia' }, bob]);
+    const left = tracker.diff([{ ...alice, username: 'Alicia' }]);
+
+    expect(joined.map(patch => [patch.type, patch.seq])).toEqual([['user_joined', start + 1], ['user_joined', start + 2]]);
+    expect(updated).toEqual([{ type: 'user_updated', seq: start + 3, user: { ...alice, username: 'Alicia' } }]);
+    expect(left).toEqual([{ type: 'user_left', seq: start + 4, userId: 'bob' }]);
+    expect(tracker.currentSeq).toBe(start + 4);
+  });
+
+  it("emits nothing when the roster hasn't changed", () => {
+    const tracker = new RosterDeltaTracker<TestUser>();
+    tracker.diff([alice]);
+
+    expect(tracker.diff([{ ...alice }])).toEqual([]);
+  });
+
+  it("brings a client from a snapshot to the server's roster", () => {
+    const tracker = new RosterDeltaTracker<TestUser>();
+    tracker.diff([alice]);
+    const snapshot = { roster: [alice], seq: tracker.currentSeq };
+
+    const patches = [
+      ...tracker.diff([alice, bob]),
+      ...tracker.diff([bob]),
+    ];
+    const client = applyPatches(snapshot.roster, snapshot.seq, patches);
+
+    expect(client).toEqual({ roster: [bob], lastSeq: tracker.currentSeq, resync: false });
+  });
+
+  it("skips patches the snapshot already covers", () => {
+    const tracker = new RosterDeltaTracker<TestUser>();
+    const early = tracker.diff([alice]);
+    const snapshot = { roster: [alice], seq: tracker.currentSeq };
+
+    const client = applyPatches(snapshot.roster, snapshot.seq, [...early, ...tracker.diff([alice, bob])]);
+
+    expect(client.roster).toEqual([alice, bob]);
+    expect(client.resync).toBe(false);
+  });
+
+  it("detects a dropped patch as a gap", () => {
+    const tracker = new RosterDeltaTracker<TestUser>();
+    tracker.diff([alice]);
+    const snapshot = { roster: [alice], seq: tracker.currentSeq };
+
+    tracker.diff([alice, bob]); // lost in transit
+    const client = applyPatches(snapshot.roster, snapshot.seq, tracker.diff([bob]));
+
+    expect(client).toEqual({ roster: [alice], lastSeq: snapshot.seq, resync: true });
+  });
+
+  it("makes a client resync after the DO restarts", () => {
+    vi.useFakeTimers({ now: 1_000 });
+    try {
+      const before = new RosterDeltaTracker<TestUser>();
+      before.diff([alice, bob]);
+
+      vi.setSystemTime(2_000);
+      const after = new RosterDeltaTracker<TestUser>();
+      const [patch] = after.diff([alice]);
+
+      expect(patch.seq).toBeGreaterThan(before.currentSeq);
+      expect(checkRosterSeq(before.currentSeq, patch.seq)).toBe('gap');
+    } finally {
+      vi.useRealTimers();
+    }
+  });
+});
+
+describe("checkRosterSeq", () => {
+  it("waits for a snapshot before applying anything", () => {
+    expect(checkRosterSeq(null, 5)).toBe('skip');
+  });
+
+  it("applies the next patch, skips old ones and flags gaps", () => {
+    expect(checkRosterSeq(5, 6)).toBe('apply');
+    expect(checkRosterSeq(5, 5)).toBe('skip');
+    expect(checkRosterSeq(5, 3)).toBe('skip');
+    expect(checkRosterSeq(5, 7)).toBe('gap');
+  });
+});
@@ -0,0 +1,48 @@
+// src/durableObjects/rosterDelta.ts
+import type { RosterPatchMessage } from "@/app/shared/realtimeProtocol";
+
+/**
+ * Tracks the roster last published to clients and turns the current roster
+ * into `user_joined` / `user_updated` / `user_left` patches, each with the next
+ * sequence number. Patches are idempotent upserts/removals, so a snapshot taken
+ * between two diffs stays consistent with the patches that follow it.
+ */
+export class RosterDeltaTracker<U extends { userId: string }> {
+  private published: Map<string, string> = new Map(); // userId -> serialized user
+  // Seeded from the clock so sequence ids keep increasing across evictions
+  // and a client never mistakes a restarted DO's patches for the next ones
+  private seq: number = Date.now();
+
+  get currentSeq(): number {
+    return this.seq;
+  }
+
+  diff(users: U[]): RosterPatchMessage<U>[] {
+    const patches: RosterPatchMessage<U>[] = [];
+    const current = new Set<string>();
+
+    for (const user of users) {
+      current.add(user.userId);
+      const serialized = JSON.stringify(user);
+      const previous = this.published.get(user.userId);
+
+      if (previous === serialized) continue;
+
+      this.published.set(user.userId, serialized);
+      patches.push({
+        type: previous === undefined ? 'user_joined' : 'user_updated',
+        seq: ++this.seq,
+        user
+      });
+    }
+
+    for (const userId of this.published.keys()) {
+      if (current.has(userId)) continue;
+
+      this.published.delete(userId);
+      patches.push({ type: 'user_left', seq: ++this.seq, userId });
+    }
+
+    return patches;
+  }
+}
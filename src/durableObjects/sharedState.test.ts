@@ -0,0 +1,104 @@
+import { describe, expect, it } from "vitest";
+import { SharedStateDocument } from "./sharedState";
+import type { Clock } from "./alarmScheduler";
+import { MemoryStorage } from "@/test/memoryStorage";
+
+class FakeClock implements Clock {
+  constructor(public time = 1_000) {}
+  now() {
+    return this.time;
+  }
+}
+
+function createDocument(maxEntries = 10) {
+  const storage = new MemoryStorage();
+  const clock = new FakeClock();
+  const document = new SharedStateDocument(storage.asStorage(), maxEntries, clock);
+  return { storage, clock, document };
+}
+
+describe("SharedStateDocument", () => {
+  it("stamps every write with a strictly increasing time", () => {
+    const { document } = createDocument();
+
+    const first = document.apply({ op: 'set', path: 'score', value: 1 });
+    const second = document.apply({ op: 'set', path: 'score', value: 2 });
+
+    expect(first).toEqual({ ok: true, changes: [{ path: 'score', value: 1, updatedAt: 1_000 }] });
+    expect(second).toEqual({ ok: true, changes: [{ path: 'score', value: 2, updatedAt: 1_001 }] });
+  });
+
+  it("never stamps a write earlier than the last one when the clock goes back", () => {
+    const { clock, document } = createDocument();
+
+    document.apply({ op: 'set', path: 'a', value: 1 });
+    clock.time = 500;
+    const result = document.apply({ op: 'set', path: 'a', value: 2 });
+
+    expect(result.ok && result.changes[0].updatedAt).toBe(1_001);
+  });
+
+  it("replaces entries above and below the written path", () => {
+    const { document } = createDocument();
+    document.apply({ op: 'set', path: 'board/cells/1', value: 'x' });
+    document.apply({ op: 'set', path: 'board/cells/2', value: 'o' });
+
+    const result = document.apply({ op: 'set', path: 'board', value: 'reset' });
+
+    expect(result.ok && result.changes.map(entry => [entry.path, entry.deleted ?? false])).toEqual([
+      ['board/cells/1', true],
+      ['board/cells/2', true],
+      ['board', false],
+    ]);
+    expect(document.snapshot().map(entry => entry.path)).toEqual(['board']);
+
+    document.apply({ op: 'set', path: 'board/cells/1', value: 'x' });
+    expect(document.snapshot().map(entry => entry.path)).toEqual(['board/cells/1']);
+  });
+
+  it("increments numbers and refuses to increment anything else", () => {
+    const { document } = createDocument();
+
+    document.apply({ op: 'increment', path: 'score', by: 2 });
+    document.apply({ op: 'increment', path: 'score', by: 3 });
+    document.apply({ op: 'set', path: 'name', value: 'alice' });
+
+    expect(document.snapshot().find(entry => entry.path === 'score')?.value).toBe(5);
+    expect(document.apply({ op: 'increment', path: 'name', by: 1 }).ok).toBe(false);
+  });
+
+  it("deletes a subtree and reports nothing when there was nothing to delete", () => {
+    const { document } = createDocument();
+    document.apply({ op: 'set', path: 'players/alice', value: 1 });
+    document.apply({ op: 'set', path: 'players/bob', value: 2 });
+
+    const removed = document.apply({ op: 'delete', path: 'players' });
+
+    expect(removed.ok && removed.changes.every(entry => entry.deleted)).toBe(true);
+    expect(document.snapshot()).toEqual([]);
+    expect(document.apply({ op: 'delete', path: 'players' })).toEqual({ ok: true, changes: [] });
+  });
+
+  it("refuses writes past the entry limit but allows overwrites", () => {
+    const { document } = createDocument(2);
+    document.apply({ op: 'set', path: 'a', value: 1 });
+    document.apply({ op: 'set', path: 'b', value: 1 });
+
+    expect(document.apply({ op: 'set', path: 'c', value: 1 }).ok).toBe(false);
+    expect(document.apply({ op: 'set', path: 'a', value: 2 }).ok).toBe(true);
+  });
+
+  it("restores entries and the last write time from storage", async () => {
+    const { storage, document } = createDocument();
+    document.apply({ op: 'set', path: 'a', value: 1 });
+    document.apply({ op: 'set', path: 'b/c', value: 2 });
+    document.apply({ op: 'delete', path: 'a' });
+
+    const restored = new SharedStateDocument(storage.asStorage(), 10, new FakeClock(0));
+    await restored.load();
+
+    expect(restored.snapshot()).toEqual([{ path: 'b/c', value: 2, updatedAt: 1_001 }]);
+    const next = restored.apply({ op: 'set', path: 'd', value: 3 });
+    expect(next.ok && next.changes[0].updatedAt).toBe(1_002);
+  });
+});
@@ -0,0 +1,121 @@
+// src/durableObjects/sharedState.ts
+import { systemClock, type Clock } from "./alarmScheduler";
+import {
+  STATE_PATH_SEPARATOR,
+  type SharedStateEntry,
+  type SharedStateOperation,
+} from "@/app/shared/realtimeProtocol";
+
+const STORAGE_PREFIX = 'state:';
+const MAX_KEYS_PER_STORAGE_CALL = 128;
+
+/**
+ * The subset of DurableObjectStorage the document needs
+ */
+export type SharedStateStorage = Pick<DurableObjectStorage, 'list' | 'put' | 'delete'>;
+
+export type SharedStateResult =
+  | { ok: true; changes: SharedStateEntry[] }
+  | { ok: false; error: string };
+
+/**
+ * Room-scoped key-value document. Entries are leaves of a path tree: writing a
+ * path removes any entries above or below it, so the tree never holds both a
+ * value and children at the same path. Each write gets a strictly increasing
+ * server timestamp, which clients use to keep the latest write (LWW).
+ */
+export class SharedStateDocument {
+  private entries: Map<string, SharedStateEntry> = new Map();
+  private lastWriteAt = 0;
+
+  constructor(
+    private storage: SharedStateStorage,
+    private maxEntries: number,
+    private clock: Clock = systemClock
+  ) {}
+
+  /**
+   * Restore persisted entries - call from blockConcurrencyWhile in the constructor
+   */
+  async load() {
+    const stored = await this.storage.list<SharedStateEntry>({ prefix: STORAGE_PREFIX });
+    for (const entry of stored.values()) {
+      this.entries.set(entry.path, entry);
+      this.lastWriteAt = Math.max(this.lastWriteAt, entry.updatedAt);
+    }
+  }
+
+  snapshot(): SharedStateEntry[] {
+    return Array.from(this.entries.values());
+  }
+
+  /**
+   * Apply an operation and persist it. Returns the entries it wrote, with
+   * removed paths as `deleted` entries, or why it was refused.
+   */
+  apply(operation: SharedStateOperation): SharedStateResult {
+    const updatedAt = Math.max(this.clock.now(), this.lastWriteAt + 1);
+
+    // Everything the operation replaces, including the entry at the path itself
+    const replaced = this.findOverlapping(operation.path);
+
+    if (operation.op === 'delete') {
+      const changes = this.remove(replaced, updatedAt);
+      if (changes.length > 0) this.lastWriteAt = updatedAt;
+      return { ok: true, changes };
+    }
+
+    let value = operation.op === 'set' ? operation.value : operation.by;
+    if (operation.op === 'increment') {
+      const current = this.entries.get(operation.path)?.value ?? 0;
+      if (typeof current !== 'number') {
+        return { ok: false, error: `Can't increment "${operation.path}": it isn't a number` };
+      }
+      value = current + operation.by;
+    }
+
+    if (this.entries.size - replaced.length + 1 > this.maxEntries) {
+      return { ok: false, error: `Shared state is limited to ${this.maxEntries} entries` };
+    }
+
+    // The entry at the path is overwritten below rather than deleted
+    const changes = this.remove(replaced.filter(path => path !== operation.path), updatedAt);
+    const entry: SharedStateEntry = { path: operation.path, value, updatedAt };
+    this.entries.set(entry.path, entry);
+    this.storage.put(STORAGE_PREFIX + entry.path, entry);
+    this.lastWriteAt = updatedAt;
+
+    changes.push(entry);
+    return { ok: true, changes };
+  }
+
+  /**
+   * Paths of the entries at, above and below `path`
+   */
+  private findOverlapping(path: string): string[] {
+    return Array.from(this.entries.keys()).filter(existing =>
+      existing === path || isWithin(existing, path) || isWithin(path, existing)
+    );
+  }
+
+  private remove(paths: string[], updatedAt: number): SharedStateEntry[] {
+    const removed: SharedStateEntry[] = paths.map(path => ({ path, value: null, updatedAt, deleted: true }));
+    for (const path of paths) {
+      this.entries.delete(path);
+    }
+
+    const keys = removed.map(entry => STORAGE_PREFIX + entry.path);
+    for (let i = 0; i < keys.length; i += MAX_KEYS_PER_STORAGE_CALL) {
+      this.storage.delete(keys.slice(i, i + MAX_KEYS_PER_STORAGE_CALL));
+    }
+
+    return removed;
+  }
+}
+
+/**
+ * Whether `path` is strictly below `ancestor`
+ */
+function isWithin(path: string, ancestor: string): boolean {
+  return path.startsWith(ancestor + STATE_PATH_SEPARATOR);
+}
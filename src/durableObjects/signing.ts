@@ -0,0 +1,66 @@
+// src/durableObjects/signing.ts
+
+// HMAC-SHA256 signing with AUTH_SECRET_KEY, for values the worker hands to
+// clients and has to trust when they come back
+
+const encoder = new TextEncoder();
+
+export function toBase64Url(bytes: Uint8Array): string {
+  let binary = '';
+  for (const byte of bytes) {
+    binary += String.fromCharCode(byte);
+  }
+  return btoa(binary).replace(/\+/g, '-').replace(/\//g, '_').replace(/=+$/, '');
+}
+
+export function fromBase64Url(value: string): Uint8Array<ArrayBuffer> {
+  const base64 = value.replace(/-/g, '+').replace(/_/g, '/');
+  const binary = atob(base64 + '='.repeat((4 - (base64.length % 4)) % 4));
+  // Backed by a plain ArrayBuffer, which is what crypto.subtle accepts
+  const bytes = new Uint8Array(new ArrayBuffer(binary.length));
+  for (let i = 0; i < binary.length; i++) {
+    bytes[i] = binary.charCodeAt(i);
+  }
+  return bytes;
+}
+
+async function importKey(secret: string): Promise<CryptoKey> {
+  if (!secret) {
+    throw new Error('AUTH_SECRET_KEY is not configured');
+  }
+
+  return crypto.subtle.importKey(
+    'raw',
+    encoder.encode(secret),
+    { name: 'HMAC', hash: 'SHA-256' },
+    false,
+    ['sign', 'verify']
+  );
+}
+
+/**
+ * Sign `payload`, returning `payload.signature`
+ */
+export async function signValue(secret: string, payload: string): Promise<string> {
+  const key = await importKey(secret);
+  const signature = await crypto.subtle.sign('HMAC', key, encoder.encode(payload));
+
+  return `${payload}.${toBase64Url(new Uint8Array(signature))}`;
+}
+
+/**
+ * Check a value produced by signValue. Returns the payload, or null if the signature doesn't match.
+ */
+export async function verifySignedValue(secret: string, value: string): Promise<string | null> {
+  const separator = value.lastIndexOf('.');
+  if (separator <= 0) return null;
+
+  const payload = value.slice(0, separator);
+  const signature = value.slice(separator + 1);
+  if (!signature) return null;
+
+  const key = await importKey(secret);
+  const valid = await crypto.subtle.verify('HMAC', key, fromBase64Url(signature), encoder.encode(payload));
+
+  return valid ? payload : null;
+}
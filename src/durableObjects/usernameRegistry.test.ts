@@ -0,0 +1,36 @@
+import { describe, expect, it } from "vitest";
+import { UsernameRegistry } from "./usernameRegistry";
+import { MemoryStorage } from "@/test/memoryStorage";
+
+describe("UsernameRegistry", () => {
+  it("keeps a user's generated name", () => {
+    const usernames = new UsernameRegistry(new MemoryStorage().asStorage());
+
+    const name = usernames.get('anon_1');
+
+    expect(name).toMatch(/^[a-z]+-[a-z]+$/);
+    expect(usernames.get('anon_1')).toBe(name);
+  });
+
+  it("restores names from storage", async () => {
+    const storage = new MemoryStorage();
+    const name = new UsernameRegistry(storage.asStorage()).get('anon_1');
+
+    const restored = new UsernameRegistry(storage.asStorage());
+    await restored.load();
+
+    expect(restored.size).toBe(1);
+    expect(restored.get('anon_1')).toBe(name);
+  });
+
+  it("forgets every name on clear, in storage too", async () => {
+    const storage = new MemoryStorage();
+    const usernames = new UsernameRegistry(storage.asStorage());
+    for (let i = 0; i < 300; i++) usernames.get(`anon_${i}`);
+
+    await usernames.clear();
+
+    expect(usernames.size).toBe(0);
+    expect(storage.data.size).toBe(0);
+  });
+});
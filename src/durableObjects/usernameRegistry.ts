@@ -0,0 +1,62 @@
+// src/durableObjects/usernameRegistry.ts
+import { uniqueNamesGenerator, adjectives, animals } from 'unique-names-generator';
+
+// Names for users who join without one, e.g. "brave-otter"
+const USERNAME_CONFIG = {
+  dictionaries: [adjectives, animals] as string[][],
+  separator: '-',
+  length: 2,
+  style: 'lowerCase' as const
+};
+
+const STORAGE_PREFIX = 'username:';
+
+// DurableObjectStorage.delete takes at most this many keys per call
+const DELETE_BATCH_SIZE = 128;
+
+/**
+ * Generated display names by userId, mirrored to storage so a refresh or an
+ * evicted room doesn't rename anyone
+ */
+export class UsernameRegistry {
+  private names: Map<string, string> = new Map();
+
+  constructor(private storage: DurableObjectStorage) {}
+
+  /**
+   * Restore persisted names - call from blockConcurrencyWhile in the constructor
+   */
+  async load() {
+    const stored = await this.storage.list<string>({ prefix: STORAGE_PREFIX });
+    for (const [key, name] of stored.entries()) {
+      this.names.set(key.slice(STORAGE_PREFIX.length), name);
+    }
+  }
+
+  get size(): number {
+    return this.names.size;
+  }
+
+  /**
+   * The user's generated name, generating one on first use
+   */
+  get(userId: string): string {
+    let name = this.names.get(userId);
+    if (!name) {
+      name = uniqueNamesGenerator(USERNAME_CONFIG);
+      this.names.set(userId, name);
+      this.storage.put(STORAGE_PREFIX + userId, name);
+      console.log(`🎭 Generated username "${name}" for ${userId}`);
+    }
+    return name;
+  }
+
+  async clear() {
+    const keys = Array.from(this.names.keys(), userId => STORAGE_PREFIX + userId);
+    this.names.clear();
+
+    for (let i = 0; i < keys.length; i += DELETE_BATCH_SIZE) {
+      await this.storage.delete(keys.slice(i, i + DELETE_BATCH_SIZE));
+    }
+  }
+}
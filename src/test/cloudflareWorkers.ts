@@ -0,0 +1,12 @@
+// src/test/cloudflareWorkers.ts
+
+// Test stand-in for the `cloudflare:workers` module, which only exists inside workerd.
+// vitest.config.mts points the import here.
+export class DurableObject<Env = unknown> {
+  constructor(
+    protected ctx: DurableObjectState,
+    protected env: Env
+  ) {}
+}
+
+export const env = {};
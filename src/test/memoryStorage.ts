@@ -0,0 +1,73 @@
+// src/test/memoryStorage.ts
+
+/**
+ * In-memory stand-in for the parts of DurableObjectStorage the DOs use.
+ * Values are cloned on the way in and out, like real storage.
+ */
+export class MemoryStorage {
+  readonly data = new Map<string, unknown>();
+  alarm: number | null = null;
+  puts = 0;
+  failNextPut: Error | null = null;
+
+  async get<T>(keys: string | string[]): Promise<any> {
+    if (Array.isArray(keys)) {
+      const values = new Map<string, T>();
+      for (const key of keys) {
+        if (this.data.has(key)) values.set(key, structuredClone(this.data.get(key)) as T);
+      }
+      return values;
+    }
+    return structuredClone(this.data.get(keys)) as T | undefined;
+  }
+
+  async put<T>(keyOrEntries: string | Record<string, T>, value?: T): Promise<void> {
+    this.puts++;
+    if (this.failNextPut) {
+      const error = this.failNextPut;
+      this.failNextPut = null;
+      throw error;
+    }
+
+    if (typeof keyOrEntries === 'string') {
+      this.data.set(keyOrEntries, structuredClone(value));
+      return;
+    }
+    for (const [key, entry] of Object.entries(keyOrEntries)) {
+      this.data.set(key, structuredClone(entry));
+    }
+  }
+
+  async delete(keys: string | string[]): Promise<any> {
+    if (Array.isArray(keys)) {
+      return keys.filter(key => this.data.delete(key)).length;
+    }
+    return this.data.delete(keys);
+  }
+
+  async list<T>({ prefix = '' }: { prefix?: string } = {}): Promise<Map<string, T>> {
+    const entries = [...this.data.entries()]
+      .filter(([key]) => key.startsWith(prefix))
+      .sort(([a], [b]) => (a < b ? -1 : a > b ? 1 : 0));
+    return new Map(entries.map(([key, value]) => [key, structuredClone(value) as T]));
+  }
+
+  async getAlarm(): Promise<number | null> {
+    return this.alarm;
+  }
+
+  async setAlarm(scheduledTime: number | Date): Promise<void> {
+    this.alarm = typeof scheduledTime === 'number' ? scheduledTime : scheduledTime.getTime();
+  }
+
+  async deleteAlarm(): Promise<void> {
+    this.alarm = null;
+  }
+
+  /**
+   * Typed as the real thing for code that takes DurableObjectStorage
+   */
+  asStorage(): DurableObjectStorage {
+    return this as unknown as DurableObjectStorage;
+  }
+}
@@ -0,0 +1,14 @@
+// src/test/realtimeDurableObject.ts
+import { DurableObject } from "./cloudflareWorkers";
+
+// Test stand-in for rwsdk's RealtimeDurableObject - the DOs under test hand it
+// framework sockets, which the tests don't open
+export class RealtimeDurableObject extends DurableObject {
+  async fetch(_request: Request): Promise<Response> {
+    return new Response('Not handled by the test stand-in', { status: 404 });
+  }
+
+  async webSocketMessage(_ws: WebSocket, _data: ArrayBuffer): Promise<void> {}
+
+  async webSocketClose(_ws: WebSocket): Promise<void> {}
+}
@@ -0,0 +1,140 @@
+// src/test/workerRuntime.ts
+import { MemoryStorage } from "./memoryStorage";
+
+const WEBSOCKET_OPEN = 1;
+const WEBSOCKET_CLOSED = 3;
+
+type FakeSocketListener = (event: { data?: string | ArrayBuffer; code?: number; reason?: string }) => void;
+
+/**
+ * One end of a FakeWebSocketPair: whatever is sent arrives in the peer's `received`,
+ * and its listeners when it's used the non-hibernating way
+ */
+export class FakeWebSocket {
+  static readonly OPEN = WEBSOCKET_OPEN;
+  static readonly CLOSED = WEBSOCKET_CLOSED;
+
+  readyState = WEBSOCKET_OPEN;
+  peer: FakeWebSocket | null = null;
+  readonly received: (string | ArrayBuffer)[] = [];
+  closeCode: number | null = null;
+  private attachment: unknown = null;
+  private listeners = new Map<string, FakeSocketListener[]>();
+
+  accept() {}
+
+  addEventListener(type: string, listener: FakeSocketListener) {
+    this.listeners.set(type, [...(this.listeners.get(type) ?? []), listener]);
+  }
+
+  send(data: string | ArrayBuffer) {
+    if (this.readyState !== WEBSOCKET_OPEN) throw new Error('WebSocket is closed');
+    this.peer?.received.push(data);
+    this.peer?.dispatch('message', { data });
+  }
+
+  close(code = 1000, reason = '') {
+    if (this.readyState === WEBSOCKET_CLOSED) return;
+
+    this.readyState = WEBSOCKET_CLOSED;
+    this.closeCode = code;
+    this.peer?.dispatch('close', { code, reason });
+  }
+
+  private dispatch(type: string, event: Parameters<FakeSocketListener>[0]) {
+    for (const listener of this.listeners.get(type) ?? []) {
+      listener(event);
+    }
+  }
+
+  serializeAttachment(value: unknown) {
+    this.attachment = structuredClone(value);
+  }
+
+  deserializeAttachment() {
+    return structuredClone(this.attachment);
+  }
+
+  /**
+   * The JSON frames received so far
+   */
+  messages<T = any>(): T[] {
+    return this.received.filter((data): data is string => typeof data === 'string').map(data => JSON.parse(data) as T);
+  }
+
+  asWebSocket(): WebSocket {
+    return this as unknown as WebSocket;
+  }
+}
+
+export class FakeWebSocketPair {
+  0: FakeWebSocket;
+  1: FakeWebSocket;
+
+  constructor() {
+    this[0] = new FakeWebSocket();
+    this[1] = new FakeWebSocket();
+    this[0].peer = this[1];
+    this[1].peer = this[0];
+  }
+}
+
+/**
+ * Workers answer upgrades with a 101 carrying the client socket, which Node's Response refuses
+ */
+export class UpgradeResponse extends Response {
+  readonly clientSocket: FakeWebSocket | null;
+
+  constructor(body?: BodyInit | null, init?: ResponseInit & { webSocket?: unknown }) {
+    const upgrade = init?.status === 101;
+    super(body, upgrade ? { ...init, status: 200 } : init);
+    this.clientSocket = (init?.webSocket as FakeWebSocket | undefined) ?? null;
+    if (upgrade) {
+      Object.defineProperty(this, 'status', { value: 101 });
+    }
+  }
+}
+
+/**
+ * The parts of DurableObjectState the DOs use: storage and hibernatable sockets
+ */
+export class FakeDurableObjectState {
+  readonly storage = new MemoryStorage();
+  private sockets = new Map<FakeWebSocket, string[]>();
+  private blocking: Promise<unknown>[] = [];
+
+  acceptWebSocket(ws: FakeWebSocket, tags: string[] = []) {
+    this.sockets.set(ws, tags);
+  }
+
+  getWebSockets(tag?: string): FakeWebSocket[] {
+    return [...this.sockets.entries()]
+      .filter(([ws, tags]) => ws.readyState !== WEBSOCKET_CLOSED && (!tag || tags.includes(tag)))
+      .map(([ws]) => ws);
+  }
+
+  getTags(ws: FakeWebSocket): string[] {
+    return this.sockets.get(ws) ?? [];
+  }
+
+  blockConcurrencyWhile<T>(callback: () => Promise<T>): Promise<T> {
+    const promise = callback();
+    this.blocking.push(promise);
+    return promise;
+  }
+
+  waitUntil(promise: Promise<unknown>) {
+    this.blocking.push(promise);
+  }
+
+  /**
+   * Wait for the constructor's blockConcurrencyWhile, like the runtime does before the first request
+   */
+  async ready() {
+    await Promise.all(this.blocking);
+  }
+
+  asState(): DurableObjectState {
+    return this as unknown as DurableObjectState;
+  }
+}
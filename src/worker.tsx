@@ -11,15 +11,26 @@ import { Session } from "./session/durableObject";
 import { type User, db, setupDb } from "@/db";
 import { env } from "cloudflare:workers";
 import Room from "@/app/pages/Room";
+import {
+  createAnonymousCookie,
+  generateAnonymousUserId,
+  readAnonymousCookie,
+} from "@/durableObjects/identity";
+import { IS_DEV } from "rwsdk/constants";
+import { forwardToRoom } from "@/app/rooms/access";
+import { listActiveRooms } from "@/app/rooms/directory";
+import { handleMultiplexedConnection } from "@/app/realtime/multiplexer";
 
 // Export Durable Objects
 export { SessionDurableObject } from "./session/durableObject";
 export { PresenceDurableObject as RealtimeDurableObject } from "./durableObjects/presenceDurableObject";
 export { GameSyncPresenceDurableObject } from "./durableObjects/gameSyncPresenceDurableObject";
+export { RoomRegistryDurableObject } from "./durableObjects/roomRegistryDurableObject";
 
 export type AppContext = {
   session: Session | null;
   user: User | null;
+  anonymousUserId: string | null;
 };
 
 export default defineApp([
@@ -43,6 +54,7 @@ export default defineApp([
         if (request.url.includes('__realtime') || request.url.includes('__gamesync')) {
           console.log('⏭️ Skipping redirect for realtime/gamesync request');
           ctx.session = null;
+          ctx.anonymousUserId = await readAnonymousCookie(env.AUTH_SECRET_KEY, request);
           return; // Continue without session
         }
         
@@ -59,8 +71,25 @@ export default defineApp([
       });
       console.log('👤 User found:', ctx.user?.username || 'Not found');
     }
+
+    // Visitors without a session are identified by their signed anonymous cookie
+    ctx.anonymousUserId = ctx.user ? null : await readAnonymousCookie(env.AUTH_SECRET_KEY, request);
   },
 
+  // 🆔 ANONYMOUS IDENTITY - issues (or confirms) the id bound to this browser's cookie
+  route("/__identity/anonymous", async ({ ctx }) => {
+    if (ctx.anonymousUserId) {
+      return Response.json({ userId: ctx.anonymousUserId });
+    }
+
+    const userId = generateAnonymousUserId();
+    console.log('🆔 Issued anonymous id:', userId);
+
+    return Response.json({ userId }, {
+      headers: { 'Set-Cookie': await createAnonymousCookie(env.AUTH_SECRET_KEY, userId, !IS_DEV) },
+    });
+  }),
+
   // 🎮 GAMESYNC API ROUTES - Clean prefix for all game sync functionality
   prefix("/__gamesync", gameSyncRoutes),
 
@@ -90,7 +119,7 @@ export default defineApp([
   }),
 
   // 📡 PRESENCE API ROUTES - Original presence system
-  route("/__realtime/presence", async ({ request }) => {
+  route("/__realtime/presence", async ({ request, ctx }) => {
     let key = '/default';
     
     if (request.method === 'POST') {
@@ -116,11 +145,37 @@ export default defineApp([
     const durableObjectId = (env.REALTIME_DURABLE_OBJECT as any).idFromName(key);
     const durableObject = (env.REALTIME_DURABLE_OBJECT as any).get(durableObjectId);
     
-    return durableObject.fetch(request);
+    // Forward with the session-verified identity so the DO never trusts body-supplied ids,
+    // rejecting non-members of private rooms
+    return forwardToRoom(durableObject, request, key, ctx);
+  }),
+
+  // 📡 PRESENCE HEALTH - a room's connection and message counters
+  route("/__realtime/health", async ({ request, ctx }) => {
+    const key = new URL(request.url).searchParams.get('key') || '/default';
+    
+    const durableObjectId = env.REALTIME_DURABLE_OBJECT.idFromName(key);
+    const durableObject = env.REALTIME_DURABLE_OBJECT.get(durableObjectId);
+    
+    return forwardToRoom(durableObject, request, key, ctx);
+  }),
+
+  // 📡 PRESENCE ROOM DIRECTORY
+  route("/__realtime/rooms", async ({ request }) => {
+    return listActiveRooms(request, 'presence');
+  }),
+
+  // 🔀 MULTIPLEXED CONNECTION - one socket per page carrying presence, gamesync and framework channels
+  route("/__realtime/mux", async ({ request, ctx }) => {
+    if (request.headers.get("Upgrade") === "websocket") {
+      return handleMultiplexedConnection(request, ctx);
+    }
+    
+    return new Response("WebSocket upgrade required", { status: 400 });
   }),
 
   // 📡 PRESENCE WEBSOCKET ROUTES
-  route("/__realtime", async ({ request }) => {
+  route("/__realtime", async ({ request, ctx }) => {
     if (request.headers.get("Upgrade") === "websocket") {
       const url = new URL(request.url);
       const key = url.searchParams.get('key') || '/default';
@@ -130,7 +185,7 @@ export default defineApp([
       const durableObjectId = (env.REALTIME_DURABLE_OBJECT as any).idFromName(key);
       const durableObject = (env.REALTIME_DURABLE_OBJECT as any).get(durableObjectId);
       
-      return durableObject.fetch(request);
+      return forwardToRoom(durableObject, request, key, ctx);
     }
     
     return new Response("WebSocket upgrade required", { status: 400 });
@@ -187,7 +242,7 @@ export default defineApp([
               <ul>
                 <li><a href="/__gamesync/health">Health Check</a></li>
                 <li><a href="/__gamesync/state">Current State</a></li>
-                <li><a href="/__gamesync/rooms">Room Info</a></li>
+                <li><a href="/__gamesync/rooms">Active Rooms</a></li>
               </ul>
               <p><a href="/">← Back to Room</a></p>
             </body>
@@ -0,0 +1,19 @@
+import { defineConfig } from "vitest/config";
+import { fileURLToPath } from "node:url";
+
+// Unit tests for the plain modules - kept apart from vite.config.mts so the
+// worker plugins aren't loaded
+export default defineConfig({
+  resolve: {
+    alias: {
+      "@": fileURLToPath(new URL("./src", import.meta.url)),
+      // Runtime-only modules, replaced by stand-ins for the Durable Object tests
+      "cloudflare:workers": fileURLToPath(new URL("./src/test/cloudflareWorkers.ts", import.meta.url)),
+      "rwsdk/realtime/durableObject": fileURLToPath(new URL("./src/test/realtimeDurableObject.ts", import.meta.url)),
+    },
+  },
+  test: {
+    environment: "node",
+    include: ["src/**/*.test.ts"],
+  },
+});
@@ -10,6 +10,7 @@ declare namespace Cloudflare {
 		SESSION_DURABLE_OBJECT: DurableObjectNamespace<import("./src/worker").SessionDurableObject>;
 		REALTIME_DURABLE_OBJECT: DurableObjectNamespace<import("./src/worker").RealtimeDurableObject>;
 		GAME_SYNC_DURABLE_OBJECT: DurableObjectNamespace<import("./src/worker").GameSyncPresenceDurableObject>;
+		ROOM_REGISTRY_DURABLE_OBJECT: DurableObjectNamespace<import("./src/worker").RoomRegistryDurableObject>;
 		DB: D1Database;
 		ASSETS: Fetcher;
 	}